@@ -0,0 +1,193 @@
+/**
+ * Compares matching every pattern separately with the single-pass
+ * MatchEngine on a synthetic log. Runs under plain Node after compiling:
+ *
+ *   npm run benchmark -- --size=16 --runs=5 --extra=100
+ *
+ * `--size` is the log size in megabytes (default 8), `--runs` the number of
+ * timed runs per matcher (default 3) and `--extra` the number of literal
+ * patterns added to the typical set, such as "user 4217" (default 0).
+ */
+import { performance } from "perf_hooks";
+import { Pattern, PatternConfig } from "../models/pattern";
+import { MatchEngine } from "../services/matchEngine";
+import { PatternMatch, PatternMatcher } from "../services/patternMatcher";
+
+const LEVELS = ["INFO", "DEBUG", "WARN", "ERROR", "TRACE"];
+const COMPONENTS = ["http", "db", "cache", "auth", "queue", "scheduler"];
+const MESSAGES = [
+  "request completed in {n}ms",
+  "connection pool exhausted, waiting for {n} connections",
+  "cache miss for key user:{n}",
+  "token refresh failed for session {n}",
+  "job {n} scheduled for retry",
+  "slow query detected ({n}ms)",
+  "user {n} logged in",
+  "timeout while contacting upstream after {n}ms",
+];
+
+/**
+ * Read a numeric `--name=value` command line option
+ */
+function getOption(name: string, fallback: number): number {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  const value = arg ? Number(arg.slice(name.length + 3)) : NaN;
+  return value > 0 ? value : fallback;
+}
+
+/**
+ * Generate log lines until the text reaches the given size
+ */
+function generateLog(bytes: number): string {
+  let seed = 42;
+  const random = (n: number) => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return (seed >>> 8) % n;
+  };
+
+  const lines: string[] = [];
+  let size = 0;
+  for (let i = 0; size < bytes; i++) {
+    const line = `2024-05-${String(1 + random(28)).padStart(2, "0")}T12:${String(
+      random(60)
+    ).padStart(2, "0")}:00.${String(i % 1000).padStart(3, "0")}Z ${
+      LEVELS[random(LEVELS.length)]
+    } [${COMPONENTS[random(COMPONENTS.length)]}] ${MESSAGES[
+      random(MESSAGES.length)
+    ].replace("{n}", String(random(100000)))}`;
+    lines.push(line);
+    size += line.length + 1;
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Patterns typical for log analysis: mostly literals, a few expressions,
+ * plus the given number of literals for user ids
+ */
+function createPatterns(extra: number): Pattern[] {
+  const literals = [
+    ...LEVELS,
+    ...COMPONENTS.map((component) => `[${component}]`),
+    "timeout",
+    "failed",
+    "exhausted",
+    "slow query",
+    "retry",
+    "logged in",
+    "cache miss",
+    "session",
+    "upstream",
+    "connection",
+    "user:1",
+    "completed",
+    ...Array.from({ length: extra }, (_, i) => `user ${1000 + i * 7}`),
+  ];
+  const patterns: Pattern[] = literals.map((text, index) => ({
+    id: `literal-${index}`,
+    text,
+    kind: "literal",
+    colorIndex: index % 8,
+    enabled: true,
+    createdAt: 0,
+    scope: "user",
+    wholeWord: index % 5 === 0 ? true : undefined,
+  }));
+  patterns.push(
+    {
+      id: "regex-duration",
+      text: "\\d+ms",
+      kind: "regex",
+      colorIndex: 0,
+      enabled: true,
+      createdAt: 0,
+      scope: "user",
+    },
+    {
+      id: "regex-user",
+      text: "user \\d+",
+      kind: "regex",
+      colorIndex: 1,
+      enabled: true,
+      createdAt: 0,
+      scope: "user",
+    }
+  );
+  return patterns;
+}
+
+/**
+ * Run a matcher several times and return the fastest time with its result
+ */
+function time(
+  runs: number,
+  run: () => PatternMatch[][]
+): { ms: number; result: PatternMatch[][] } {
+  let best = Infinity;
+  let result: PatternMatch[][] = [];
+  for (let i = 0; i < runs; i++) {
+    const startedAt = performance.now();
+    result = run();
+    best = Math.min(best, performance.now() - startedAt);
+  }
+  return { ms: best, result };
+}
+
+function main(): void {
+  const sizeMb = getOption("size", 8);
+  const runs = getOption("runs", 3);
+  const extra = getOption("extra", 0);
+  const text = generateLog(sizeMb * 1024 * 1024);
+  const patterns = createPatterns(extra);
+  const literalCount = patterns.filter((p) => p.kind !== "regex").length;
+  const config: PatternConfig = {
+    enabled: true,
+    caseSensitive: false,
+    wholeWord: false,
+  };
+
+  console.log(
+    `Log: ${(text.length / 1024 / 1024).toFixed(1)} MB, ${
+      text.split("\n").length
+    } lines; ${patterns.length} patterns (${literalCount} literal)`
+  );
+
+  const matcher = new PatternMatcher();
+  const perPattern = time(runs, () =>
+    patterns.map((pattern) => matcher.findMatches(text, pattern, config))
+  );
+
+  const engine = new MatchEngine();
+  const singlePass = time(runs, () => engine.findAll(text, patterns, config));
+
+  // Both approaches must find exactly the same matches
+  const mismatches = patterns.filter(
+    (_, index) =>
+      JSON.stringify(perPattern.result[index]) !==
+      JSON.stringify(singlePass.result[index])
+  );
+  const matchCount = singlePass.result.reduce(
+    (sum, matches) => sum + matches.length,
+    0
+  );
+
+  const throughput = (ms: number) =>
+    `${((text.length / 1024 / 1024) * (1000 / ms)).toFixed(1)} MB/s`;
+  console.log(`Matches: ${matchCount}`);
+  console.log(
+    `Per pattern: ${perPattern.ms.toFixed(1)} ms (${throughput(perPattern.ms)})`
+  );
+  console.log(
+    `Single pass: ${singlePass.ms.toFixed(1)} ms (${throughput(singlePass.ms)})`
+  );
+  console.log(`Speedup: ${(perPattern.ms / singlePass.ms).toFixed(2)}x`);
+
+  if (mismatches.length > 0) {
+    console.error(
+      `Results differ for: ${mismatches.map((p) => p.text).join(", ")}`
+    );
+    process.exitCode = 1;
+  }
+}
+
+main();
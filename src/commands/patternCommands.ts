@@ -2,8 +2,32 @@ import * as vscode from "vscode";
 import { PatternManager } from "../services/patternManager";
 import { DecorationManager } from "../services/decorationManager";
 import { PatternTreeProvider } from "../views/patternTreeProvider";
-import { MAX_PATTERNS } from "../constants/colors";
-import { Pattern, PatternConfig } from "../models/pattern";
+import { OccurrencesTreeProvider } from "../views/occurrencesTreeProvider";
+import { WorkspaceSearch } from "../services/workspaceSearch";
+import { PatternMatcher } from "../services/patternMatcher";
+import { ColorService } from "../services/colorService";
+import { PatternExportFormat } from "../services/patternExportFormat";
+import { MatchingLinesProvider } from "../services/matchingLinesProvider";
+import { LogFollower } from "../services/logFollower";
+import {
+  EXTERNAL_IMPORT_SOURCES,
+  ExternalFormat,
+  ExternalFormats,
+} from "../services/externalFormats";
+import {
+  ImportCandidate,
+  ImportMode,
+  ImportPlan,
+  Pattern,
+  PatternExport,
+  PatternScope,
+} from "../models/pattern";
+import {
+  COLOR_PALETTE,
+  EXPORT_FILE_SUFFIX,
+  GROUP_COLOR_SCHEMES,
+  PATTERN_STYLES,
+} from "../constants/colors";
 
 /**
  * Registers and handles all pattern-related commands
@@ -13,6 +37,8 @@ export class PatternCommands {
     private patternManager: PatternManager,
     private decorationManager: DecorationManager,
     private treeProvider: PatternTreeProvider,
+    private occurrencesProvider: OccurrencesTreeProvider,
+    private logFollower: LogFollower,
     private context: vscode.ExtensionContext
   ) {
     this.registerCommands();
@@ -33,6 +59,7 @@ export class PatternCommands {
     // Check if commands are already registered to prevent duplicate registration
     const commandIds = [
       "patternColorization.addPattern",
+      "patternColorization.addRegexPattern",
       "patternColorization.deletePattern",
       "patternColorization.clearPatterns",
       "patternColorization.refreshPatterns",
@@ -42,6 +69,7 @@ export class PatternCommands {
       "patternColorization.editPattern",
       "patternColorization.addFromSelection",
       "patternColorization.importPatterns",
+      "patternColorization.importFromExtension",
       "patternColorization.exportPatterns",
       "patternColorization.showStats",
       "patternColorization.jumpToNext",
@@ -49,6 +77,31 @@ export class PatternCommands {
       "patternColorization.jumpToNextSelectedPattern",
       "patternColorization.jumpToPreviousSelectedPattern",
       "patternColorization.changePatternColor",
+      "patternColorization.changePatternStyle",
+      "patternColorization.editMarkerOptions",
+      "patternColorization.editMatchingOptions",
+      "patternColorization.moveToUserScope",
+      "patternColorization.moveToWorkspaceScope",
+      "patternColorization.switchPatternSet",
+      "patternColorization.createPatternSet",
+      "patternColorization.renamePatternSet",
+      "patternColorization.duplicatePatternSet",
+      "patternColorization.deletePatternSet",
+      "patternColorization.undo",
+      "patternColorization.redo",
+      "patternColorization.findInWorkspace",
+      "patternColorization.clearOccurrences",
+      "patternColorization.moveToGroup",
+      "patternColorization.enableGroup",
+      "patternColorization.disableGroup",
+      "patternColorization.setGroupColorScheme",
+      "patternColorization.filterPatterns",
+      "patternColorization.clearFilter",
+      "patternColorization.showMatchingLines",
+      "patternColorization.goToSourceLine",
+      "patternColorization.followFile",
+      "patternColorization.stopFollowing",
+      "patternColorization.highlightLargeFile",
     ];
 
     // Only register commands that aren't already registered
@@ -59,9 +112,11 @@ export class PatternCommands {
             // Route to appropriate handler based on command ID
             switch (commandId) {
               case "patternColorization.addPattern":
-                return this.addPattern();
+                return this.addPattern(args[0]);
+              case "patternColorization.addRegexPattern":
+                return this.addRegexPattern(args[0]);
               case "patternColorization.deletePattern":
-                return this.deletePattern(args[0]);
+                return this.deletePattern(args[0], args[1]);
               case "patternColorization.clearPatterns":
                 return this.clearPatterns();
               case "patternColorization.refreshPatterns":
@@ -72,7 +127,8 @@ export class PatternCommands {
                 return this.disableHighlighting();
               case "patternColorization.togglePattern":
                 return this.togglePattern(
-                  typeof args[0] === "string" ? args[0] : args[0]?.id
+                  typeof args[0] === "string" ? args[0] : args[0]?.id,
+                  args[1]
                 );
               case "patternColorization.editPattern":
                 return this.editPattern(args[0]);
@@ -80,8 +136,13 @@ export class PatternCommands {
                 return this.addPatternFromSelection();
               case "patternColorization.importPatterns":
                 return this.importPatterns();
+              case "patternColorization.importFromExtension":
+                return this.importFromExtension();
               case "patternColorization.exportPatterns":
-                return this.exportPatterns();
+                return this.exportPatterns(
+                  undefined,
+                  this.getTargetPatternIds(args[0], args[1])
+                );
               case "patternColorization.showStats":
                 return this.showStats();
               case "patternColorization.jumpToNext":
@@ -93,7 +154,57 @@ export class PatternCommands {
               case "patternColorization.jumpToPreviousSelectedPattern":
                 return this.jumpToPreviousSelectedPatternOccurrence();
               case "patternColorization.changePatternColor":
-                return this.changePatternColor(args[0]);
+                return this.changePatternColor(args[0], args[1]);
+              case "patternColorization.changePatternStyle":
+                return this.changePatternStyle(args[0]);
+              case "patternColorization.editMarkerOptions":
+                return this.editMarkerOptions(args[0]);
+              case "patternColorization.editMatchingOptions":
+                return this.editMatchingOptions(args[0]);
+              case "patternColorization.moveToUserScope":
+                return this.movePatternToScope(args[0], "user");
+              case "patternColorization.moveToWorkspaceScope":
+                return this.movePatternToScope(args[0], "workspace");
+              case "patternColorization.switchPatternSet":
+                return this.switchPatternSet();
+              case "patternColorization.createPatternSet":
+                return this.createPatternSet();
+              case "patternColorization.renamePatternSet":
+                return this.renamePatternSet();
+              case "patternColorization.duplicatePatternSet":
+                return this.duplicatePatternSet();
+              case "patternColorization.deletePatternSet":
+                return this.deletePatternSet();
+              case "patternColorization.undo":
+                return this.undo();
+              case "patternColorization.redo":
+                return this.redo();
+              case "patternColorization.findInWorkspace":
+                return this.findInWorkspace(args[0]);
+              case "patternColorization.clearOccurrences":
+                return this.occurrencesProvider.clear();
+              case "patternColorization.moveToGroup":
+                return this.moveToGroup(args[0], args[1]);
+              case "patternColorization.enableGroup":
+                return this.setGroupEnabled(args[0], true);
+              case "patternColorization.disableGroup":
+                return this.setGroupEnabled(args[0], false);
+              case "patternColorization.setGroupColorScheme":
+                return this.setGroupColorScheme(args[0]);
+              case "patternColorization.filterPatterns":
+                return this.filterPatterns();
+              case "patternColorization.clearFilter":
+                return this.treeProvider.setFilter(undefined);
+              case "patternColorization.showMatchingLines":
+                return this.showMatchingLines(args[0]);
+              case "patternColorization.goToSourceLine":
+                return this.goToSourceLine();
+              case "patternColorization.followFile":
+                return this.followFile();
+              case "patternColorization.stopFollowing":
+                return this.stopFollowing(args[0]);
+              case "patternColorization.highlightLargeFile":
+                return this.highlightLargeFile(args[0]);
               default:
                 console.warn(`Unknown command: ${commandId}`);
             }
@@ -113,22 +224,73 @@ export class PatternCommands {
   }
 
   /**
-   * Add a new pattern with inline editing support
+   * Add a new pattern with inline editing support.
+   * When invoked from a section in the tree, the pattern is added to that scope.
    */
-  private async addPattern(): Promise<void> {
+  private async addPattern(item?: any): Promise<void> {
     try {
-      const patterns = this.patternManager.getPatterns();
-      if (patterns.length >= MAX_PATTERNS) {
+      if (this.patternManager.isAtPatternLimit()) {
+        this.showPatternLimitWarning();
         return;
       }
 
       // Start true inline editing in the tree view
-      this.treeProvider.startInlineAdd();
+      this.treeProvider.startInlineAdd("literal", this.getScopeFromItem(item));
     } catch (error) {
       console.error("Failed to start inline pattern addition:", error);
     }
   }
 
+  /**
+   * Add a new regular expression pattern
+   */
+  private async addRegexPattern(item?: any): Promise<void> {
+    try {
+      if (this.patternManager.isAtPatternLimit()) {
+        this.showPatternLimitWarning();
+        return;
+      }
+
+      await this.treeProvider.startInlineAdd(
+        "regex",
+        this.getScopeFromItem(item)
+      );
+    } catch (error) {
+      console.error("Failed to start regex pattern addition:", error);
+    }
+  }
+
+  /**
+   * Get the scope of a tree section item, defaulting to the workspace
+   */
+  private getScopeFromItem(item?: any): PatternScope {
+    return item?.contextValue === "scopeSection" && item.scope === "user"
+      ? "user"
+      : "workspace";
+  }
+
+  /**
+   * Warn that the configured maximum number of patterns has been reached
+   */
+  private showPatternLimitWarning(): void {
+    vscode.window
+      .showWarningMessage(
+        `⚠️ Maximum of ${this.patternManager.getMaxPatterns()} patterns allowed. Please remove some patterns first.`,
+        "Manage Patterns",
+        "Change Limit"
+      )
+      .then((selection) => {
+        if (selection === "Manage Patterns") {
+          vscode.commands.executeCommand("patternColorizationView.focus");
+        } else if (selection === "Change Limit") {
+          vscode.commands.executeCommand(
+            "workbench.action.openSettings",
+            "patternColorization.maxPatterns"
+          );
+        }
+      });
+  }
+
   /**
    * Create pattern from inline input
    */
@@ -137,8 +299,7 @@ export class PatternCommands {
     description?: string
   ): Promise<void> {
     try {
-      const patterns = this.patternManager.getPatterns();
-      if (patterns.length >= MAX_PATTERNS) {
+      if (this.patternManager.isAtPatternLimit()) {
         return;
       }
 
@@ -152,10 +313,7 @@ export class PatternCommands {
       }
 
       // Check for duplicates
-      const existing = patterns.find(
-        (p) => p.text.toLowerCase() === trimmedText.toLowerCase()
-      );
-      if (existing) {
+      if (this.patternManager.findDuplicate(trimmedText)) {
         return;
       }
 
@@ -254,10 +412,7 @@ export class PatternCommands {
     }
 
     // Check if pattern already exists
-    const patterns = this.patternManager.getPatterns();
-    const existing = patterns.find(
-      (p) => p.text.toLowerCase() === selectedText.toLowerCase()
-    );
+    const existing = this.patternManager.findDuplicate(selectedText);
 
     if (existing) {
       const colorName = this.patternManager.getColorForPattern(existing).name;
@@ -277,20 +432,8 @@ export class PatternCommands {
       return;
     }
 
-    if (patterns.length >= MAX_PATTERNS) {
-      vscode.window
-        .showWarningMessage(
-          `⚠️ Maximum of ${MAX_PATTERNS} patterns allowed. Please remove some patterns first.`,
-          "Manage Patterns",
-          "Show All"
-        )
-        .then((selection) => {
-          if (selection === "Manage Patterns") {
-            vscode.commands.executeCommand("patternColorizationView.focus");
-          } else if (selection === "Show All") {
-            vscode.commands.executeCommand("patternColorization.showStats");
-          }
-        });
+    if (this.patternManager.isAtPatternLimit()) {
+      this.showPatternLimitWarning();
       return;
     }
 
@@ -367,8 +510,21 @@ export class PatternCommands {
   /**
    * Delete a pattern
    */
-  private async deletePattern(item?: any): Promise<void> {
+  private async deletePattern(item?: any, selection?: any[]): Promise<void> {
     try {
+      const ids = this.getTargetPatternIds(item, selection);
+      if (ids.length > 1) {
+        const confirmed = await vscode.window.showWarningMessage(
+          `Delete ${ids.length} patterns?`,
+          { modal: true },
+          "Delete"
+        );
+        if (confirmed === "Delete") {
+          await this.patternManager.removePatterns(ids);
+        }
+        return;
+      }
+
       let patternId: string;
 
       if (item && item.id) {
@@ -382,7 +538,7 @@ export class PatternCommands {
         }
 
         const items = patterns.map((pattern) => ({
-          label: pattern.text,
+          label: PatternMatcher.formatPattern(pattern),
           description: pattern.description,
           id: pattern.id,
         }));
@@ -407,7 +563,7 @@ export class PatternCommands {
       }
 
       const confirmed = await vscode.window.showWarningMessage(
-        `Delete pattern "${pattern.text}"?`,
+        `Delete pattern "${PatternMatcher.formatPattern(pattern)}"?`,
         { modal: true },
         "Delete"
       );
@@ -422,11 +578,12 @@ export class PatternCommands {
   }
 
   /**
-   * Clear all patterns
+   * Clear all workspace patterns; user patterns are kept
    */
   private async clearPatterns(): Promise<void> {
     try {
-      const patterns = this.patternManager.getPatterns();
+      const patterns = this.patternManager.getPatternsByScope("workspace");
+      const userCount = this.patternManager.getPatternsByScope("user").length;
 
       if (patterns.length === 0) {
         vscode.window
@@ -441,13 +598,18 @@ export class PatternCommands {
 
       // Enhanced confirmation dialog
       const choice = await vscode.window.showWarningMessage(
-        `⚠️ Clear all ${patterns.length} pattern${
+        `⚠️ Clear all ${patterns.length} workspace pattern${
           patterns.length !== 1 ? "s" : ""
         }?`,
         {
           modal: true,
-          detail:
-            "This action cannot be undone. All highlighting will be removed from your files.",
+          detail: `You can undo this with Undo Pattern Change. Their highlighting will be removed from your files.${
+            userCount > 0
+              ? ` Your ${userCount} user pattern${
+                  userCount !== 1 ? "s are" : " is"
+                } shared with other workspaces and will be kept.`
+              : ""
+          }`,
         },
         "Clear All",
         "Export First",
@@ -455,7 +617,7 @@ export class PatternCommands {
       );
 
       if (choice === "Export First") {
-        await this.exportPatterns();
+        await this.exportPatterns("json");
         // Ask again after export
         const secondChoice = await vscode.window.showWarningMessage(
           "Patterns exported. Clear all patterns now?",
@@ -634,13 +796,35 @@ export class PatternCommands {
   /**
    * Toggle a specific pattern on/off
    */
-  private async togglePattern(patternId: string | undefined): Promise<void> {
+  private async togglePattern(
+    patternId: string | undefined,
+    selection?: any[]
+  ): Promise<void> {
     try {
       if (!patternId) {
         vscode.window.showErrorMessage("Pattern ID not provided");
         return;
       }
 
+      // Several selected patterns all take the new state of the clicked one
+      const ids = this.getTargetPatternIds({ id: patternId }, selection);
+      if (ids.length > 1) {
+        const clicked = this.patternManager
+          .getPatterns()
+          .find((p) => p.id === patternId);
+        const enabled = !clicked?.enabled;
+        const count = await this.patternManager.updatePatterns(ids, {
+          enabled,
+        });
+        vscode.window.setStatusBarMessage(
+          `$(${enabled ? "eye" : "eye-closed"}) ${count} patterns ${
+            enabled ? "enabled" : "disabled"
+          }`,
+          2000
+        );
+        return;
+      }
+
       const success = await this.patternManager.togglePattern(patternId);
       if (!success) {
         vscode.window.showErrorMessage("Pattern not found");
@@ -686,7 +870,7 @@ export class PatternCommands {
         }
 
         const items = patterns.map((pattern) => ({
-          label: pattern.text,
+          label: PatternMatcher.formatPattern(pattern),
           description: pattern.description,
           id: pattern.id,
         }));
@@ -740,28 +924,389 @@ export class PatternCommands {
 
       const fileContent = await vscode.workspace.fs.readFile(fileUri[0]);
       const jsonString = Buffer.from(fileContent).toString("utf8");
-      const patternsData = JSON.parse(jsonString);
 
-      if (!Array.isArray(patternsData)) {
+      let exportData: PatternExport;
+      try {
+        const migrated = PatternExportFormat.migrate(JSON.parse(jsonString));
+        migrated.warnings.forEach((warning) =>
+          vscode.window.showWarningMessage(warning)
+        );
+        exportData = migrated.data;
+      } catch (error) {
         vscode.window.showErrorMessage(
-          "Invalid file format: Expected array of patterns"
+          `Invalid file format: ${
+            error instanceof Error ? error.message : error
+          }`
+        );
+        return;
+      }
+
+      const imported = await this.pickImportedPatterns(exportData);
+      if (!imported) {
+        return;
+      }
+
+      // Group settings are only applied along with the imported patterns
+      if (
+        await this.importPatternData(imported.patterns, {
+          user: exportData.userGroups,
+          workspace: imported.groups,
+        })
+      ) {
+        await this.offerImportedConfig(exportData);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to import patterns: ${error}`);
+    }
+  }
+
+  /**
+   * Collect the patterns to import from an export: the user patterns plus
+   * the patterns of one set, chosen by the user when the file has several,
+   * and that set's group settings. Resolves to undefined when cancelled.
+   */
+  private async pickImportedPatterns(
+    exportData: PatternExport
+  ): Promise<{ patterns: any[]; groups: any } | undefined> {
+    let set = exportData.sets[0];
+
+    if (exportData.sets.length > 1) {
+      const items = exportData.sets.map((candidate) => {
+        const count = candidate.patterns.length;
+        const wasActive = candidate.name === exportData.activeSet;
+        return {
+          label: `$(layers) ${candidate.name}`,
+          description: `${count} pattern${count !== 1 ? "s" : ""}${
+            wasActive ? " (active when exported)" : ""
+          }`,
+          set: candidate,
+        };
+      });
+      const selected = await vscode.window.showQuickPick(items, {
+        title: "Import Patterns",
+        placeHolder: `Import which pattern set into "${
+          this.patternManager.getActiveSet().name
+        }"?`,
+      });
+      if (!selected) {
+        return undefined;
+      }
+      set = selected.set;
+    }
+
+    return {
+      patterns: [
+        ...exportData.userPatterns.map((p) => ({ ...p, scope: "user" })),
+        ...(set?.patterns || []).map((p) => ({ ...p, scope: "workspace" })),
+      ],
+      groups: set?.groups,
+    };
+  }
+
+  /**
+   * Offer to apply the global matching settings stored in an export when
+   * they differ from the current ones
+   */
+  private async offerImportedConfig(exportData: PatternExport): Promise<void> {
+    const imported = exportData.config;
+    if (!imported) {
+      return;
+    }
+
+    const config = this.patternManager.getConfig();
+    const changed = (["caseSensitive", "wholeWord", "enabled"] as const).filter(
+      (key) => imported[key] !== undefined && imported[key] !== config[key]
+    );
+    if (changed.length === 0) {
+      return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `The imported file uses different settings: ${changed
+        .map((key) => `${key} = ${imported[key]}`)
+        .join(", ")}. Apply them to this workspace?`,
+      "Apply Settings"
+    );
+    if (choice !== "Apply Settings") {
+      return;
+    }
+
+    const settings = vscode.workspace.getConfiguration("patternColorization");
+    for (const key of changed) {
+      await settings.update(
+        key,
+        imported[key],
+        vscode.ConfigurationTarget.Workspace
+      );
+    }
+  }
+
+  /**
+   * Import patterns from the configuration of another highlight extension
+   */
+  private async importFromExtension(): Promise<void> {
+    try {
+      const configuration = vscode.workspace.getConfiguration();
+      const items = EXTERNAL_IMPORT_SOURCES.map((source) => {
+        const patternsData = source
+          .convert(source.settings.map((setting) => configuration.get(setting)))
+          .filter((data) => data && typeof data.text === "string");
+        return {
+          label: source.name,
+          description: `${patternsData.length} pattern${
+            patternsData.length !== 1 ? "s" : ""
+          }`,
+          patternsData,
+        };
+      }).filter((item) => item.patternsData.length > 0);
+
+      if (items.length === 0) {
+        const supported = EXTERNAL_IMPORT_SOURCES.map((source) => source.name);
+        vscode.window.showInformationMessage(
+          `No highlight extension configuration found (supported: ${supported.join(
+            ", "
+          )})`
         );
         return;
       }
 
-      await this.patternManager.importPatterns(patternsData);
+      const selected = await vscode.window.showQuickPick(items, {
+        title: "Import from Highlight Extension",
+        placeHolder: "Select the extension configuration to import",
+      });
+      if (!selected) {
+        return;
+      }
+
+      await this.importPatternData(selected.patternsData);
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to import patterns: ${error}`);
     }
   }
 
+  /**
+   * Import raw pattern data: ask for the import mode, preview the result and
+   * apply the accepted patterns with the given group settings. Resolves to
+   * whether anything was imported.
+   */
+  private async importPatternData(
+    patternsData: any[],
+    groups: { user?: any; workspace?: any } = {}
+  ): Promise<boolean> {
+    const modeItems: Array<vscode.QuickPickItem & { mode: ImportMode }> = [
+      {
+        label: "$(add) Merge: Append New",
+        description: "Add patterns that do not exist yet",
+        mode: "append",
+      },
+      {
+        label: "$(sync) Merge: Update Existing",
+        description:
+          "Add new patterns and update existing ones with the same text",
+        mode: "update",
+      },
+      {
+        label: "$(replace-all) Replace",
+        description: "Replace all workspace patterns with the imported ones",
+        mode: "replace",
+      },
+    ];
+    const modeItem = await vscode.window.showQuickPick(modeItems, {
+      title: "Import Patterns",
+      placeHolder: "How should the imported patterns be combined?",
+    });
+    if (!modeItem) {
+      return false;
+    }
+
+    const plan = this.patternManager.planImport(patternsData, modeItem.mode);
+    if (
+      plan.removed.length === 0 &&
+      plan.candidates.every((c) => c.action === "skip")
+    ) {
+      vscode.window.showInformationMessage(
+        "Nothing to import: all of these patterns already exist"
+      );
+      return false;
+    }
+
+    const accepted = await this.showImportPreview(plan);
+    if (!accepted) {
+      return false;
+    }
+
+    await this.patternManager.applyImport(plan, accepted, groups);
+    return true;
+  }
+
+  /**
+   * Let the user review an import: incoming patterns can be accepted or
+   * dropped, and patterns that will be skipped or removed are listed.
+   * Resolves to the accepted candidates, or undefined when cancelled.
+   */
+  private showImportPreview(
+    plan: ImportPlan
+  ): Promise<ImportCandidate[] | undefined> {
+    type PreviewItem = vscode.QuickPickItem & { candidate?: ImportCandidate };
+
+    const describe = (candidate: ImportCandidate): string => {
+      const color = ColorService.getColorDefinition(candidate.pattern).name;
+      return candidate.originalColorIndex !== undefined
+        ? `${color} (reassigned from ${
+            COLOR_PALETTE[candidate.originalColorIndex].name
+          })`
+        : color;
+    };
+
+    const toItem = (candidate: ImportCandidate): PreviewItem => ({
+      label: `${candidate.action === "update" ? "$(sync)" : "$(add)"} ${
+        PatternMatcher.formatPattern(candidate.pattern)
+      }`,
+      description: `${candidate.pattern.scope} • ${describe(candidate)}`,
+      detail: candidate.pattern.description,
+      picked: true,
+      candidate,
+    });
+
+    const added = plan.candidates.filter((c) => c.action === "add");
+    const updated = plan.candidates.filter((c) => c.action === "update");
+    const skipped = plan.candidates.filter((c) => c.action === "skip");
+
+    const items: PreviewItem[] = [];
+    if (added.length > 0) {
+      items.push(
+        { label: "New", kind: vscode.QuickPickItemKind.Separator },
+        ...added.map(toItem)
+      );
+    }
+    if (updated.length > 0) {
+      items.push(
+        { label: "Updated", kind: vscode.QuickPickItemKind.Separator },
+        ...updated.map(toItem)
+      );
+    }
+
+    // Dropped entries are listed for review but cannot be selected
+    const dropped: PreviewItem[] = [
+      ...plan.removed.map((pattern) => ({
+        label: `$(trash) ${PatternMatcher.formatPattern(pattern)}`,
+        description: "Removed by replace",
+      })),
+      ...skipped.map((candidate) => ({
+        label: `$(circle-slash) ${PatternMatcher.formatPattern(
+          candidate.pattern
+        )}`,
+        description: candidate.reason,
+      })),
+    ];
+    if (dropped.length > 0) {
+      items.push(
+        { label: "Dropped", kind: vscode.QuickPickItemKind.Separator },
+        ...dropped
+      );
+    }
+
+    const quickPick = vscode.window.createQuickPick<PreviewItem>();
+    quickPick.title = `Import Preview (${plan.candidates.length} pattern${
+      plan.candidates.length !== 1 ? "s" : ""
+    } in file${
+      plan.invalidCount > 0 ? `, ${plan.invalidCount} invalid ignored` : ""
+    })`;
+    quickPick.placeholder =
+      "Select the patterns to import; unselected patterns are dropped";
+    quickPick.canSelectMany = true;
+    quickPick.matchOnDescription = true;
+    quickPick.items = items;
+    quickPick.selectedItems = items.filter((item) => item.picked);
+
+    return new Promise((resolve) => {
+      let accepted: ImportCandidate[] | undefined;
+
+      quickPick.onDidChangeSelection((selection) => {
+        if (selection.some((item) => !item.candidate)) {
+          quickPick.selectedItems = selection.filter((item) => item.candidate);
+        }
+      });
+      quickPick.onDidAccept(() => {
+        accepted = quickPick.selectedItems
+          .map((item) => item.candidate)
+          .filter((c): c is ImportCandidate => !!c);
+        quickPick.hide();
+      });
+      quickPick.onDidHide(() => {
+        quickPick.dispose();
+        resolve(accepted);
+      });
+
+      quickPick.show();
+    });
+  }
+
   /**
    * Export patterns to JSON file
    */
-  private async exportPatterns(): Promise<void> {
+  private async exportPatterns(
+    format?: "json" | ExternalFormat,
+    ids: string[] = []
+  ): Promise<void> {
     try {
-      const patterns = this.patternManager.getPatterns();
-      if (patterns.length === 0) {
+      if (!format) {
+        const formatItems: Array<
+          vscode.QuickPickItem & { format: "json" | ExternalFormat }
+        > = [
+          {
+            label: "$(json) Pattern Colorization (JSON)",
+            description:
+              ids.length > 0
+                ? `${ids.length} selected pattern${
+                    ids.length !== 1 ? "s" : ""
+                  } and settings`
+                : "All pattern sets, user patterns and settings",
+            format: "json",
+          },
+          {
+            label: "$(search) ripgrep",
+            description: "Shell script running rg with one -e per pattern",
+            format: "ripgrep",
+          },
+          {
+            label: "$(terminal) less",
+            description: "Shell script coloring matches with perl for less -R",
+            format: "less",
+          },
+          {
+            label: "$(code) Vim",
+            description: "Script with a matchadd() call per pattern",
+            format: "vim",
+          },
+          {
+            label: "$(file-code) Notepad++",
+            description: "User-defined language XML (literal patterns only)",
+            format: "notepadPlusPlus",
+          },
+        ];
+        const selected = await vscode.window.showQuickPick(formatItems, {
+          title: "Export Patterns",
+          placeHolder: "Select the export format",
+        });
+        if (!selected) {
+          return;
+        }
+        format = selected.format;
+      }
+
+      if (format !== "json") {
+        await this.exportToExternalFormat(format, ids);
+        return;
+      }
+
+      const exportData = this.patternManager.exportData(
+        ids.length > 0 ? ids : undefined
+      );
+      const patternCount =
+        exportData.userPatterns.length +
+        exportData.sets.reduce((sum, set) => sum + set.patterns.length, 0);
+      if (patternCount === 0) {
         vscode.window.showInformationMessage("No patterns to export");
         return;
       }
@@ -770,7 +1315,9 @@ export class PatternCommands {
         filters: {
           "JSON files": ["json"],
         },
-        defaultUri: vscode.Uri.file("patterns.json"),
+        defaultUri: vscode.Uri.file(
+          `${vscode.workspace.name || "patterns"}${EXPORT_FILE_SUFFIX}`
+        ),
         saveLabel: "Export Patterns",
       });
 
@@ -778,8 +1325,7 @@ export class PatternCommands {
         return;
       }
 
-      const patternsData = this.patternManager.exportPatterns();
-      const jsonString = JSON.stringify(patternsData, null, 2);
+      const jsonString = JSON.stringify(exportData, null, 2);
       const buffer = Buffer.from(jsonString, "utf8");
 
       await vscode.workspace.fs.writeFile(fileUri, buffer);
@@ -789,14 +1335,66 @@ export class PatternCommands {
     }
   }
 
+  /**
+   * Export the enabled patterns to another tool's format
+   */
+  private async exportToExternalFormat(
+    format: ExternalFormat,
+    ids: string[] = []
+  ): Promise<void> {
+    // Selected patterns are exported even when disabled
+    const patterns =
+      ids.length > 0
+        ? this.patternManager.getPatterns().filter((p) => ids.includes(p.id))
+        : this.patternManager.getEnabledPatterns();
+    if (patterns.length === 0) {
+      vscode.window.showInformationMessage("No enabled patterns to export");
+      return;
+    }
+
+    const result = ExternalFormats.export(
+      format,
+      patterns,
+      this.patternManager.getConfig()
+    );
+
+    const fileUri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(
+        `${vscode.workspace.name || "patterns"}${result.fileSuffix}`
+      ),
+      saveLabel: "Export Patterns",
+    });
+    if (!fileUri) {
+      return;
+    }
+
+    await vscode.workspace.fs.writeFile(
+      fileUri,
+      Buffer.from(result.content, "utf8")
+    );
+
+    if (result.skipped.length > 0) {
+      vscode.window.showWarningMessage(
+        `${result.skipped.length} pattern${
+          result.skipped.length !== 1 ? "s were" : " was"
+        } not exported: ${result.skipped
+          .map(
+            ({ pattern, reason }) =>
+              `${PatternMatcher.formatPattern(pattern)} (${reason})`
+          )
+          .join(", ")}`
+      );
+    }
+  }
+
   /**
    * Show statistics about patterns and highlighting
    */
-  private showStats(): void {
+  private async showStats(): Promise<void> {
     try {
       const patterns = this.patternManager.getPatterns();
       const config = this.patternManager.getConfig();
-      const stats = this.decorationManager.getStats();
+      const stats = await this.decorationManager.getStats();
 
       const panel = vscode.window.createWebviewPanel(
         "patternStats",
@@ -814,10 +1412,10 @@ export class PatternCommands {
 
       // Handle messages from webview (for future interactivity)
       panel.webview.onDidReceiveMessage(
-        (message) => {
+        async (message) => {
           switch (message.command) {
             case "refresh":
-              const newStats = this.decorationManager.getStats();
+              const newStats = await this.decorationManager.getStats();
               panel.webview.postMessage({
                 command: "updateStats",
                 data: {
@@ -837,9 +1435,9 @@ export class PatternCommands {
       );
 
       // Auto-refresh when patterns change
-      const disposable = this.patternManager.onDidChangePatterns(() => {
+      const disposable = this.patternManager.onDidChangePatterns(async () => {
         if (panel.visible) {
-          const newStats = this.decorationManager.getStats();
+          const newStats = await this.decorationManager.getStats();
           panel.webview.postMessage({
             command: "updateStats",
             data: {
@@ -867,9 +1465,16 @@ export class PatternCommands {
     config: any,
     stats: any
   ): string {
-    const patternsJson = JSON.stringify(patterns);
-    const configJson = JSON.stringify(config);
-    const statsJson = JSON.stringify(stats);
+    // Pattern data can come from shared files: keep it from closing the
+    // script block, and escape it in the page with escapeHtml
+    const toScriptJson = (value: unknown) =>
+      JSON.stringify(value)
+        .replace(/</g, "\\u003c")
+        .replace(/\u2028/g, "\\u2028")
+        .replace(/\u2029/g, "\\u2029");
+    const patternsJson = toScriptJson(patterns);
+    const configJson = toScriptJson(config);
+    const statsJson = toScriptJson(stats);
 
     return `
     <!DOCTYPE html>
@@ -1107,6 +1712,15 @@ export class PatternCommands {
                 stats: ${statsJson}
             };
             
+            function escapeHtml(value) {
+                return String(value)
+                    .replace(/&/g, '&amp;')
+                    .replace(/</g, '&lt;')
+                    .replace(/>/g, '&gt;')
+                    .replace(/"/g, '&quot;')
+                    .replace(/'/g, '&#39;');
+            }
+
             function refreshStats() {
                 if (window.acquireVsCodeApi) {
                     const vscode = window.acquireVsCodeApi();
@@ -1135,6 +1749,11 @@ export class PatternCommands {
                         <div class="stat-value">\${stats.activeDecorations}</div>
                         <div class="stat-description">Text matches found</div>
                     </div>
+                    <div class="stat-card">
+                        <h3>🗂️ Pattern Set</h3>
+                        <div class="stat-value">\${escapeHtml(stats.activeSet)}</div>
+                        <div class="stat-description">Active pattern set</div>
+                    </div>
                     <div class="stat-card">
                         <h3>⚡ Status</h3>
                         <div class="stat-value">\${config.enabled ? '🟢 ON' : '🔴 OFF'}</div>
@@ -1165,13 +1784,18 @@ export class PatternCommands {
                             { bg: '#E0F2F1', border: '#B2DFDB' },
                             { bg: '#F5F5F5', border: '#E0E0E0' }
                         ];
-                        const color = colors[colorIndex] || colors[0];
+                        const color = pattern.customColor
+                            ? { bg: pattern.customColor.light, border: pattern.customColor.light }
+                            : colors[colorIndex] || colors[0];
                         const isActive = config.enabled && pattern.enabled;
+                        const patternLabel = pattern.kind === 'regex'
+                            ? '/' + pattern.text + '/' + (pattern.flags || '')
+                            : pattern.text;
                         
                         return \`
                             <div class="pattern-item">
-                                <div class="pattern-color" style="background-color: \${color.bg}; border-color: \${color.border}"></div>
-                                <div class="pattern-text">\${pattern.text}</div>
+                                <div class="pattern-color" style="background-color: \${escapeHtml(color.bg)}; border-color: \${escapeHtml(color.border)}"></div>
+                                <div class="pattern-text">\${escapeHtml(patternLabel)}</div>
                                 <div class="pattern-status \${isActive ? 'status-active' : 'status-inactive'}">
                                     \${isActive ? 'Active' : 'Inactive'}
                                 </div>
@@ -1227,13 +1851,13 @@ export class PatternCommands {
   /**
    * Jump to the next highlight in the active editor
    */
-  private jumpToNextHighlight(): void {
+  private async jumpToNextHighlight(): Promise<void> {
     const editor = vscode.window.activeTextEditor;
     if (!editor) {
       return;
     }
 
-    const highlights = this.getHighlightRanges(editor);
+    const highlights = await this.getHighlightRanges(editor);
     if (highlights.length === 0) {
       return;
     }
@@ -1262,13 +1886,13 @@ export class PatternCommands {
   /**
    * Jump to the previous highlight in the active editor
    */
-  private jumpToPreviousHighlight(): void {
+  private async jumpToPreviousHighlight(): Promise<void> {
     const editor = vscode.window.activeTextEditor;
     if (!editor) {
       return;
     }
 
-    const highlights = this.getHighlightRanges(editor);
+    const highlights = await this.getHighlightRanges(editor);
     if (highlights.length === 0) {
       return;
     }
@@ -1297,7 +1921,9 @@ export class PatternCommands {
   /**
    * Get all highlight ranges in the active editor
    */
-  private getHighlightRanges(editor: vscode.TextEditor): vscode.Range[] {
+  private async getHighlightRanges(
+    editor: vscode.TextEditor
+  ): Promise<vscode.Range[]> {
     const patterns = this.patternManager.getEnabledPatterns();
     const config = this.patternManager.getConfig();
     const ranges: vscode.Range[] = [];
@@ -1306,14 +1932,9 @@ export class PatternCommands {
       return ranges;
     }
 
-    patterns.forEach((pattern) => {
-      const patternRanges = this.findPatternRanges(
-        editor.document,
-        pattern,
-        config
-      );
-      ranges.push(...patternRanges);
-    });
+    (
+      await this.decorationManager.findRanges(editor.document, patterns, config)
+    ).forEach((patternRanges) => ranges.push(...patternRanges));
 
     // Sort ranges by position in the document
     return ranges.sort((a, b) => {
@@ -1324,63 +1945,6 @@ export class PatternCommands {
     });
   }
 
-  /**
-   * Find all ranges for a pattern in a document
-   */
-  private findPatternRanges(
-    document: vscode.TextDocument,
-    pattern: Pattern,
-    config: PatternConfig
-  ): vscode.Range[] {
-    const ranges: vscode.Range[] = [];
-    const text = document.getText();
-    const searchText = config.caseSensitive
-      ? pattern.text
-      : pattern.text.toLowerCase();
-    const documentText = config.caseSensitive ? text : text.toLowerCase();
-
-    let index = 0;
-    while (true) {
-      let foundIndex = documentText.indexOf(searchText, index);
-      if (foundIndex === -1) {
-        break;
-      }
-
-      // Check whole word matching if enabled
-      if (config.wholeWord) {
-        const beforeChar = foundIndex > 0 ? documentText[foundIndex - 1] : " ";
-        const afterChar =
-          foundIndex + searchText.length < documentText.length
-            ? documentText[foundIndex + searchText.length]
-            : " ";
-
-        if (
-          this.isWordCharacter(beforeChar) ||
-          this.isWordCharacter(afterChar)
-        ) {
-          index = foundIndex + 1;
-          continue;
-        }
-      }
-
-      const startPos = document.positionAt(foundIndex);
-      const endPos = document.positionAt(foundIndex + searchText.length);
-      const range = new vscode.Range(startPos, endPos);
-
-      ranges.push(range);
-      index = foundIndex + 1;
-    }
-
-    return ranges;
-  }
-
-  /**
-   * Check if a character is a word character
-   */
-  private isWordCharacter(char: string): boolean {
-    return /\w/.test(char);
-  }
-
   /**
    * Reveal a range in the editor and select it
    */
@@ -1398,7 +1962,9 @@ export class PatternCommands {
   /**
    * Get the pattern at the current cursor position
    */
-  private getPatternAtCursor(editor: vscode.TextEditor): any | null {
+  private async getPatternAtCursor(
+    editor: vscode.TextEditor
+  ): Promise<any | null> {
     const position = editor.selection.active;
     const patterns = this.patternManager.getEnabledPatterns();
     const config = this.patternManager.getConfig();
@@ -1408,22 +1974,21 @@ export class PatternCommands {
     }
 
     // Check each pattern to see if cursor is within one of its ranges
-    for (const pattern of patterns) {
-      const ranges = this.findPatternRanges(editor.document, pattern, config);
-      for (const range of ranges) {
-        if (range.contains(position)) {
-          return pattern;
-        }
-      }
-    }
-
-    return null;
+    const patternRanges = await this.decorationManager.findRanges(
+      editor.document,
+      patterns,
+      config
+    );
+    const index = patternRanges.findIndex((ranges) =>
+      ranges.some((range) => range.contains(position))
+    );
+    return index === -1 ? null : patterns[index];
   }
 
   /**
    * Jump to the next occurrence of the selected/focused pattern only
    */
-  private jumpToNextSelectedPatternOccurrence(): void {
+  private async jumpToNextSelectedPatternOccurrence(): Promise<void> {
     const editor = vscode.window.activeTextEditor;
     if (!editor) {
       vscode.window.showInformationMessage("No active editor found");
@@ -1431,7 +1996,7 @@ export class PatternCommands {
     }
 
     // Detect which pattern is under the cursor
-    const selectedPattern = this.getPatternAtCursor(editor);
+    const selectedPattern = await this.getPatternAtCursor(editor);
 
     if (!selectedPattern) {
       // Fallback: use the first available pattern or show message
@@ -1446,19 +2011,19 @@ export class PatternCommands {
       // Use the first pattern as fallback
       const fallbackPattern = enabledPatterns[0];
       vscode.window.showInformationMessage(
-        `No pattern detected at cursor. Using pattern: "${fallbackPattern.text}"`
+        `No pattern detected at cursor. Using pattern: "${PatternMatcher.formatPattern(fallbackPattern)}"`
       );
-      this.navigateToNextPatternOccurrence(editor, fallbackPattern);
+      await this.navigateToNextPatternOccurrence(editor, fallbackPattern);
       return;
     }
 
-    this.navigateToNextPatternOccurrence(editor, selectedPattern);
+    await this.navigateToNextPatternOccurrence(editor, selectedPattern);
   }
 
   /**
    * Jump to the previous occurrence of the selected/focused pattern only
    */
-  private jumpToPreviousSelectedPatternOccurrence(): void {
+  private async jumpToPreviousSelectedPatternOccurrence(): Promise<void> {
     const editor = vscode.window.activeTextEditor;
     if (!editor) {
       vscode.window.showInformationMessage("No active editor found");
@@ -1466,7 +2031,7 @@ export class PatternCommands {
     }
 
     // Detect which pattern is under the cursor
-    const selectedPattern = this.getPatternAtCursor(editor);
+    const selectedPattern = await this.getPatternAtCursor(editor);
 
     if (!selectedPattern) {
       // Fallback: use the first available pattern or show message
@@ -1481,28 +2046,32 @@ export class PatternCommands {
       // Use the first pattern as fallback
       const fallbackPattern = enabledPatterns[0];
       vscode.window.showInformationMessage(
-        `No pattern detected at cursor. Using pattern: "${fallbackPattern.text}"`
+        `No pattern detected at cursor. Using pattern: "${PatternMatcher.formatPattern(fallbackPattern)}"`
       );
-      this.navigateToPreviousPatternOccurrence(editor, fallbackPattern);
+      await this.navigateToPreviousPatternOccurrence(editor, fallbackPattern);
       return;
     }
 
-    this.navigateToPreviousPatternOccurrence(editor, selectedPattern);
+    await this.navigateToPreviousPatternOccurrence(editor, selectedPattern);
   }
 
   /**
    * Navigate to the next occurrence of a specific pattern
    */
-  private navigateToNextPatternOccurrence(
+  private async navigateToNextPatternOccurrence(
     editor: vscode.TextEditor,
     pattern: any
-  ): void {
+  ): Promise<void> {
     const config = this.patternManager.getConfig();
-    const ranges = this.findPatternRanges(editor.document, pattern, config);
+    const ranges = await this.decorationManager.findPatternRanges(
+      editor.document,
+      pattern,
+      config
+    );
 
     if (ranges.length === 0) {
       vscode.window.showInformationMessage(
-        `No occurrences found for pattern: "${pattern.text}"`
+        `No occurrences found for pattern: "${PatternMatcher.formatPattern(pattern)}"`
       );
       return;
     }
@@ -1522,7 +2091,9 @@ export class PatternCommands {
     if (!nextRange && ranges.length > 0) {
       nextRange = ranges[0];
       vscode.window.showInformationMessage(
-        `Wrapped to first occurrence of "${pattern.text}"`
+        `Wrapped to first occurrence of "${PatternMatcher.formatPattern(
+          pattern
+        )}"`
       );
     }
 
@@ -1532,7 +2103,9 @@ export class PatternCommands {
       // Show status message
       const currentIndex = ranges.findIndex((r) => r.isEqual(nextRange!)) + 1;
       vscode.window.setStatusBarMessage(
-        `Pattern "${pattern.text}": ${currentIndex}/${ranges.length}`,
+        `Pattern "${PatternMatcher.formatPattern(pattern)}": ${currentIndex}/${
+          ranges.length
+        }`,
         3000
       );
     }
@@ -1541,16 +2114,20 @@ export class PatternCommands {
   /**
    * Navigate to the previous occurrence of a specific pattern
    */
-  private navigateToPreviousPatternOccurrence(
+  private async navigateToPreviousPatternOccurrence(
     editor: vscode.TextEditor,
     pattern: any
-  ): void {
+  ): Promise<void> {
     const config = this.patternManager.getConfig();
-    const ranges = this.findPatternRanges(editor.document, pattern, config);
+    const ranges = await this.decorationManager.findPatternRanges(
+      editor.document,
+      pattern,
+      config
+    );
 
     if (ranges.length === 0) {
       vscode.window.showInformationMessage(
-        `No occurrences found for pattern: "${pattern.text}"`
+        `No occurrences found for pattern: "${PatternMatcher.formatPattern(pattern)}"`
       );
       return;
     }
@@ -1570,7 +2147,9 @@ export class PatternCommands {
     if (!previousRange && ranges.length > 0) {
       previousRange = ranges[ranges.length - 1];
       vscode.window.showInformationMessage(
-        `Wrapped to last occurrence of "${pattern.text}"`
+        `Wrapped to last occurrence of "${PatternMatcher.formatPattern(
+          pattern
+        )}"`
       );
     }
 
@@ -1581,7 +2160,9 @@ export class PatternCommands {
       const currentIndex =
         ranges.findIndex((r) => r.isEqual(previousRange!)) + 1;
       vscode.window.setStatusBarMessage(
-        `Pattern "${pattern.text}": ${currentIndex}/${ranges.length}`,
+        `Pattern "${PatternMatcher.formatPattern(pattern)}": ${currentIndex}/${
+          ranges.length
+        }`,
         3000
       );
     }
@@ -1614,8 +2195,17 @@ export class PatternCommands {
   /**
    * Change pattern color from context menu
    */
-  private async changePatternColor(item?: any): Promise<void> {
+  private async changePatternColor(
+    item?: any,
+    selection?: any[]
+  ): Promise<void> {
     try {
+      const ids = this.getTargetPatternIds(item, selection);
+      if (ids.length > 1) {
+        await this.treeProvider.showColorSelection(ids);
+        return;
+      }
+
       let patternId: string;
 
       if (item && item.id) {
@@ -1631,7 +2221,7 @@ export class PatternCommands {
         }
 
         const items = patterns.map((pattern) => ({
-          label: `${pattern.text}`,
+          label: PatternMatcher.formatPattern(pattern),
           description: `Current color: ${
             this.patternManager.getColorForPattern(pattern).name
           }`,
@@ -1649,10 +2239,900 @@ export class PatternCommands {
         patternId = selected.id;
       }
 
-      await this.treeProvider.showColorSelection(patternId);
+      await this.treeProvider.showColorSelection([patternId]);
     } catch (error) {
       console.error("Failed to change pattern color:", error);
       vscode.window.showErrorMessage("Failed to change pattern color");
     }
   }
+
+  /**
+   * Change pattern decoration style from context menu
+   */
+  private async changePatternStyle(item?: any): Promise<void> {
+    try {
+      let patternId: string;
+
+      if (item && item.id) {
+        patternId = item.id;
+      } else {
+        const patterns = this.patternManager.getPatterns();
+        if (patterns.length === 0) {
+          vscode.window.showInformationMessage(
+            "No patterns to change style for"
+          );
+          return;
+        }
+
+        const items = patterns.map((pattern) => ({
+          label: PatternMatcher.formatPattern(pattern),
+          description: `Current style: ${
+            PATTERN_STYLES.find(
+              (style) => style.id === (pattern.style || "background")
+            )!.name
+          }`,
+          id: pattern.id,
+        }));
+
+        const selected = await vscode.window.showQuickPick(items, {
+          placeHolder: "Select pattern to change style",
+        });
+
+        if (!selected) {
+          return;
+        }
+
+        patternId = selected.id;
+      }
+
+      await this.treeProvider.showStyleSelection(patternId);
+    } catch (error) {
+      console.error("Failed to change pattern style:", error);
+      vscode.window.showErrorMessage("Failed to change pattern style");
+    }
+  }
+
+  /**
+   * Edit gutter icon and overview ruler lane from context menu
+   */
+  private async editMarkerOptions(item?: any): Promise<void> {
+    try {
+      let patternId: string;
+
+      if (item && item.id) {
+        patternId = item.id;
+      } else {
+        const patterns = this.patternManager.getPatterns();
+        if (patterns.length === 0) {
+          vscode.window.showInformationMessage("No patterns to configure");
+          return;
+        }
+
+        const items = patterns.map((pattern) => ({
+          label: PatternMatcher.formatPattern(pattern),
+          description: pattern.description,
+          id: pattern.id,
+        }));
+
+        const selected = await vscode.window.showQuickPick(items, {
+          placeHolder: "Select pattern to configure gutter and overview ruler",
+        });
+
+        if (!selected) {
+          return;
+        }
+
+        patternId = selected.id;
+      }
+
+      await this.treeProvider.showMarkerOptions(patternId);
+    } catch (error) {
+      console.error("Failed to edit gutter and overview ruler:", error);
+      vscode.window.showErrorMessage("Failed to edit gutter and overview ruler");
+    }
+  }
+
+  /**
+   * Edit per-pattern matching options from context menu
+   */
+  private async editMatchingOptions(item?: any): Promise<void> {
+    try {
+      let patternId: string;
+
+      if (item && item.id) {
+        patternId = item.id;
+      } else {
+        const patterns = this.patternManager.getPatterns();
+        if (patterns.length === 0) {
+          vscode.window.showInformationMessage("No patterns to configure");
+          return;
+        }
+
+        const items = patterns.map((pattern) => ({
+          label: PatternMatcher.formatPattern(pattern),
+          description: pattern.description,
+          id: pattern.id,
+        }));
+
+        const selected = await vscode.window.showQuickPick(items, {
+          placeHolder: "Select pattern to configure matching options",
+        });
+
+        if (!selected) {
+          return;
+        }
+
+        patternId = selected.id;
+      }
+
+      await this.treeProvider.showMatchingOptions(patternId);
+    } catch (error) {
+      console.error("Failed to edit matching options:", error);
+      vscode.window.showErrorMessage("Failed to edit matching options");
+    }
+  }
+
+  /**
+   * Move a pattern between the user and workspace scopes
+   */
+  private async movePatternToScope(
+    item: any,
+    scope: PatternScope
+  ): Promise<void> {
+    try {
+      const pattern = this.patternManager
+        .getPatterns()
+        .find((p) => p.id === item?.id);
+      if (!pattern) {
+        vscode.window.showErrorMessage("Pattern not found");
+        return;
+      }
+
+      const moved = await this.patternManager.movePattern(pattern.id, scope);
+      if (!moved) {
+        vscode.window.showWarningMessage(
+          `Pattern "${PatternMatcher.formatPattern(
+            pattern
+          )}" already exists in the ${scope} patterns`
+        );
+        return;
+      }
+
+      vscode.window.setStatusBarMessage(
+        `$(${scope === "user" ? "account" : "folder"}) Pattern "${
+          pattern.text
+        }" moved to ${scope} patterns`,
+        2000
+      );
+    } catch (error) {
+      console.error("Failed to move pattern:", error);
+      vscode.window.showErrorMessage(`Failed to move pattern: ${error}`);
+    }
+  }
+
+  /**
+   * Pick the active pattern set, with shortcuts to manage sets
+   */
+  private async switchPatternSet(): Promise<void> {
+    try {
+      const activeSet = this.patternManager.getActiveSet();
+      const items: Array<
+        vscode.QuickPickItem & { setId?: string; command?: string }
+      > = this.patternManager.getPatternSets().map((set) => ({
+        label: `${set.id === activeSet.id ? "$(check)" : "$(blank)"} ${
+          set.name
+        }`,
+        description: `${set.patterns.length} pattern${
+          set.patterns.length !== 1 ? "s" : ""
+        }${set.id === activeSet.id ? " (active)" : ""}`,
+        setId: set.id,
+      }));
+
+      items.push(
+        { label: "", kind: vscode.QuickPickItemKind.Separator },
+        {
+          label: "$(add) Create New Set...",
+          command: "patternColorization.createPatternSet",
+        },
+        {
+          label: "$(copy) Duplicate Active Set...",
+          command: "patternColorization.duplicatePatternSet",
+        },
+        {
+          label: "$(edit) Rename Active Set...",
+          command: "patternColorization.renamePatternSet",
+        },
+        {
+          label: "$(trash) Delete a Set...",
+          command: "patternColorization.deletePatternSet",
+        }
+      );
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `Active pattern set: ${activeSet.name}`,
+      });
+
+      if (!selected) {
+        return;
+      }
+
+      if (selected.command) {
+        await vscode.commands.executeCommand(selected.command);
+      } else if (selected.setId && selected.setId !== activeSet.id) {
+        await this.patternManager.switchPatternSet(selected.setId);
+        vscode.window.setStatusBarMessage(
+          `$(layers) Switched to pattern set "${
+            this.patternManager.getActiveSet().name
+          }"`,
+          2000
+        );
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to switch pattern set: ${error}`);
+    }
+  }
+
+  /**
+   * Ask for a pattern set name that is not used yet
+   */
+  private async promptSetName(
+    title: string,
+    value: string = "",
+    excludeId?: string
+  ): Promise<string | undefined> {
+    const name = await vscode.window.showInputBox({
+      title,
+      prompt: "Enter a name for the pattern set",
+      value,
+      placeHolder: "e.g., Auth debugging, Payment flow, Perf investigation",
+      validateInput: (input) => {
+        if (!input || !input.trim()) {
+          return "Set name cannot be empty";
+        }
+        if (this.patternManager.isSetNameTaken(input, excludeId)) {
+          return `A pattern set named "${input.trim()}" already exists`;
+        }
+        return null;
+      },
+    });
+    return name?.trim();
+  }
+
+  /**
+   * Create a new empty pattern set and switch to it
+   */
+  private async createPatternSet(): Promise<void> {
+    try {
+      const name = await this.promptSetName("Create Pattern Set");
+      if (!name) {
+        return;
+      }
+
+      await this.patternManager.createPatternSet(name);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to create pattern set: ${error}`);
+    }
+  }
+
+  /**
+   * Rename the active pattern set
+   */
+  private async renamePatternSet(): Promise<void> {
+    try {
+      const activeSet = this.patternManager.getActiveSet();
+      const name = await this.promptSetName(
+        "Rename Pattern Set",
+        activeSet.name,
+        activeSet.id
+      );
+      if (!name || name === activeSet.name) {
+        return;
+      }
+
+      await this.patternManager.renamePatternSet(activeSet.id, name);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to rename pattern set: ${error}`);
+    }
+  }
+
+  /**
+   * Copy the active pattern set and switch to the copy
+   */
+  private async duplicatePatternSet(): Promise<void> {
+    try {
+      const activeSet = this.patternManager.getActiveSet();
+      const name = await this.promptSetName(
+        "Duplicate Pattern Set",
+        `${activeSet.name} (copy)`
+      );
+      if (!name) {
+        return;
+      }
+
+      await this.patternManager.duplicatePatternSet(activeSet.id, name);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to duplicate pattern set: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Delete a pattern set after confirmation
+   */
+  private async deletePatternSet(): Promise<void> {
+    try {
+      const sets = this.patternManager.getPatternSets();
+      if (sets.length <= 1) {
+        vscode.window.showInformationMessage(
+          "The last pattern set cannot be deleted"
+        );
+        return;
+      }
+
+      const activeSet = this.patternManager.getActiveSet();
+      const selected = await vscode.window.showQuickPick(
+        sets.map((set) => ({
+          label: set.name,
+          description: `${set.patterns.length} pattern${
+            set.patterns.length !== 1 ? "s" : ""
+          }${set.id === activeSet.id ? " (active)" : ""}`,
+          id: set.id,
+        })),
+        { placeHolder: "Select pattern set to delete" }
+      );
+      if (!selected) {
+        return;
+      }
+
+      const confirmed = await vscode.window.showWarningMessage(
+        `Delete pattern set "${selected.label}"?`,
+        {
+          modal: true,
+          detail: "The patterns in this set will be removed.",
+        },
+        "Delete"
+      );
+
+      if (confirmed === "Delete") {
+        await this.patternManager.deletePatternSet(selected.id);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to delete pattern set: ${error}`);
+    }
+  }
+
+  /**
+   * Undo the last pattern operation
+   */
+  private async undo(): Promise<void> {
+    try {
+      const label = await this.patternManager.undo();
+      vscode.window.setStatusBarMessage(
+        label ? `$(discard) Undo: ${label}` : "$(discard) Nothing to undo",
+        2000
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to undo: ${error}`);
+    }
+  }
+
+  /**
+   * Redo the last undone pattern operation
+   */
+  private async redo(): Promise<void> {
+    try {
+      const label = await this.patternManager.redo();
+      vscode.window.setStatusBarMessage(
+        label ? `$(redo) Redo: ${label}` : "$(redo) Nothing to redo",
+        2000
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to redo: ${error}`);
+    }
+  }
+
+  /**
+   * Search the workspace for occurrences of one pattern or all enabled
+   * patterns and show the results in the Occurrences view
+   */
+  private async findInWorkspace(item?: any): Promise<void> {
+    try {
+      let patterns: Pattern[];
+      const itemPattern = item?.id
+        ? this.patternManager.getPatterns().find((p) => p.id === item.id)
+        : undefined;
+
+      if (itemPattern) {
+        patterns = [itemPattern];
+      } else {
+        const enabled = this.patternManager.getEnabledPatterns();
+        if (enabled.length === 0) {
+          vscode.window.showInformationMessage("No enabled patterns to search");
+          return;
+        }
+
+        const items: Array<vscode.QuickPickItem & { patterns: Pattern[] }> = [
+          {
+            label: "$(search) All Enabled Patterns",
+            description: `${enabled.length} pattern${
+              enabled.length !== 1 ? "s" : ""
+            }`,
+            patterns: enabled,
+          },
+          { label: "", kind: vscode.QuickPickItemKind.Separator, patterns: [] },
+          ...enabled.map((pattern) => ({
+            label: PatternMatcher.formatPattern(pattern),
+            description: pattern.description,
+            patterns: [pattern],
+          })),
+        ];
+        const selected = await vscode.window.showQuickPick(items, {
+          title: "Find Pattern Occurrences in Workspace",
+          placeHolder: "Select the pattern to search for",
+        });
+        if (!selected) {
+          return;
+        }
+        patterns = selected.patterns;
+      }
+
+      const search = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Searching workspace for patterns",
+          cancellable: true,
+        },
+        (progress, token) =>
+          new WorkspaceSearch().search(
+            patterns,
+            this.patternManager.getConfig(),
+            progress,
+            token
+          )
+      );
+
+      this.occurrencesProvider.setResults(search.results);
+      await vscode.commands.executeCommand(
+        "patternColorizationOccurrences.focus"
+      );
+
+      if (search.incomplete) {
+        vscode.window.showWarningMessage(
+          `Search stopped after ${search.fileCount} files: results are incomplete`
+        );
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to search workspace: ${error}`);
+    }
+  }
+
+  /**
+   * Move the selected patterns into an existing or new group, or out of
+   * their group
+   */
+  private async moveToGroup(item?: any, selection?: any[]): Promise<void> {
+    try {
+      const ids = this.getTargetPatternIds(item, selection);
+      const patterns = this.patternManager
+        .getPatterns()
+        .filter((p) => ids.includes(p.id));
+      if (patterns.length === 0) {
+        return;
+      }
+
+      const scopes = new Set(patterns.map((p) => p.scope));
+      const groupNames = new Set(
+        Array.from(scopes).flatMap((scope) =>
+          this.patternManager.getGroups(scope).map((group) => group.name)
+        )
+      );
+
+      const items: Array<
+        vscode.QuickPickItem & { group?: string; action?: "new" | "remove" }
+      > = Array.from(groupNames).map((name) => ({
+        label: `$(symbol-folder) ${name}`,
+        group: name,
+      }));
+      items.push(
+        { label: "", kind: vscode.QuickPickItemKind.Separator },
+        { label: "$(add) New Group...", action: "new" }
+      );
+      if (patterns.some((p) => p.group)) {
+        items.push({ label: "$(close) Remove from Group", action: "remove" });
+      }
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder:
+          patterns.length === 1
+            ? `Move "${PatternMatcher.formatPattern(patterns[0])}" to group`
+            : `Move ${patterns.length} patterns to group`,
+      });
+      if (!selected) {
+        return;
+      }
+
+      let group = selected.group;
+      if (selected.action === "new") {
+        group = (
+          await vscode.window.showInputBox({
+            prompt: "Enter a name for the new group",
+            placeHolder: "Group name",
+            validateInput: (value) =>
+              value.trim() ? null : "Group name cannot be empty",
+          })
+        )?.trim();
+        if (!group) {
+          return;
+        }
+      }
+
+      await this.patternManager.movePatternsToGroup(ids, group);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to move patterns: ${error}`);
+    }
+  }
+
+  /**
+   * Enable or disable all patterns of a group
+   */
+  private async setGroupEnabled(item: any, enabled: boolean): Promise<void> {
+    try {
+      if (!item?.group || !item.scope) {
+        return;
+      }
+
+      const ids = this.patternManager
+        .getPatternsByScope(item.scope)
+        .filter((p) => p.group === item.group)
+        .map((p) => p.id);
+      const count = await this.patternManager.updatePatterns(ids, {
+        enabled,
+      });
+      vscode.window.setStatusBarMessage(
+        `$(${enabled ? "eye" : "eye-closed"}) ${count} pattern${
+          count !== 1 ? "s" : ""
+        } in "${item.group}" ${enabled ? "enabled" : "disabled"}`,
+        2000
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to update group: ${error}`);
+    }
+  }
+
+  /**
+   * Choose the color scheme the patterns of a group are colored with
+   */
+  private async setGroupColorScheme(item: any): Promise<void> {
+    try {
+      if (!item?.group || !item.scope) {
+        return;
+      }
+
+      const current = this.patternManager
+        .getGroups(item.scope)
+        .find((group) => group.name === item.group)?.colorScheme;
+      const isCurrent = (colors?: number[]) =>
+        (current || []).join(",") === (colors || []).join(",");
+
+      const items: Array<
+        vscode.QuickPickItem & { colors: number[] | undefined }
+      > = [
+        ...GROUP_COLOR_SCHEMES.map((scheme) => ({
+          label: `$(symbol-color) ${scheme.name}`,
+          description: `${scheme.colors
+            .map((index) => COLOR_PALETTE[index].name.replace(/^Soft /, ""))
+            .join(", ")}${isCurrent(scheme.colors) ? " (current)" : ""}`,
+          colors: scheme.colors,
+        })),
+        { label: "", kind: vscode.QuickPickItemKind.Separator, colors: [] },
+        ...COLOR_PALETTE.map((color, index) => ({
+          label: color.name,
+          description: isCurrent([index]) ? "(current)" : "",
+          colors: [index],
+        })),
+        { label: "", kind: vscode.QuickPickItemKind.Separator, colors: [] },
+        {
+          label: "$(close) No Color Scheme",
+          description: `Patterns keep their own colors${
+            current ? "" : " (current)"
+          }`,
+          colors: undefined,
+        },
+      ];
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `Color scheme for group "${item.group}"`,
+      });
+      if (!selected) {
+        return;
+      }
+
+      await this.patternManager.setGroupColorScheme(
+        item.scope,
+        item.group,
+        selected.colors
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to set group color scheme: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Narrow the Patterns view by text, color, enabled state or group. Each
+   * pick adds to the active filter; picking a criterion again replaces it
+   */
+  private async filterPatterns(): Promise<void> {
+    try {
+      const filter = this.treeProvider.getFilter() || {};
+      const patterns = this.patternManager.getPatterns();
+
+      type Criterion = "text" | "color" | "enabled" | "group" | "clear";
+      const items: Array<vscode.QuickPickItem & { criterion: Criterion }> = [
+        {
+          label: "$(search) Text or Description...",
+          description: filter.text !== undefined ? `"${filter.text}"` : "",
+          criterion: "text",
+        },
+        {
+          label: "$(symbol-color) Color...",
+          description:
+            filter.color === undefined
+              ? ""
+              : filter.color === "custom"
+              ? "Custom"
+              : COLOR_PALETTE[filter.color].name,
+          criterion: "color",
+        },
+        {
+          label: "$(check) Enabled State...",
+          description:
+            filter.enabled === undefined
+              ? ""
+              : filter.enabled
+              ? "Enabled"
+              : "Disabled",
+          criterion: "enabled",
+        },
+        {
+          label: "$(folder) Group...",
+          description: filter.group || "",
+          criterion: "group",
+        },
+      ];
+      if (this.treeProvider.getFilter()) {
+        items.push({
+          label: "$(clear-all) Clear Filter",
+          criterion: "clear",
+        });
+      }
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: "Filter patterns by",
+      });
+      if (!selected) {
+        return;
+      }
+
+      switch (selected.criterion) {
+        case "text": {
+          const text = await vscode.window.showInputBox({
+            prompt: "Show patterns whose text or description contains",
+            placeHolder: "Leave empty to match any text",
+            value: filter.text || "",
+          });
+          if (text === undefined) {
+            return;
+          }
+          filter.text = text.trim() || undefined;
+          break;
+        }
+        case "color": {
+          const colors: Array<
+            vscode.QuickPickItem & { color: number | "custom" | undefined }
+          > = [
+            { label: "Any Color", color: undefined },
+            ...COLOR_PALETTE.map((color, index) => ({
+              label: color.name,
+              description: `${
+                patterns.filter((p) => !p.customColor && p.colorIndex === index)
+                  .length
+              } patterns`,
+              color: index,
+            })),
+            {
+              label: "Custom",
+              description: `${
+                patterns.filter((p) => p.customColor).length
+              } patterns`,
+              color: "custom" as const,
+            },
+          ];
+          const color = await vscode.window.showQuickPick(colors, {
+            placeHolder: "Show patterns with color",
+          });
+          if (!color) {
+            return;
+          }
+          filter.color = color.color;
+          break;
+        }
+        case "enabled": {
+          const states: Array<
+            vscode.QuickPickItem & { enabled: boolean | undefined }
+          > = [
+            { label: "Any State", enabled: undefined },
+            { label: "$(check) Enabled", enabled: true },
+            { label: "$(circle-slash) Disabled", enabled: false },
+          ];
+          const state = await vscode.window.showQuickPick(states, {
+            placeHolder: "Show patterns that are",
+          });
+          if (!state) {
+            return;
+          }
+          filter.enabled = state.enabled;
+          break;
+        }
+        case "group": {
+          const names = new Set(
+            (["workspace", "user"] as const).flatMap((scope) =>
+              this.patternManager.getGroups(scope).map((group) => group.name)
+            )
+          );
+          if (names.size === 0) {
+            vscode.window.showInformationMessage("No pattern groups defined");
+            return;
+          }
+          const groups: Array<
+            vscode.QuickPickItem & { group: string | undefined }
+          > = [
+            { label: "Any Group", group: undefined },
+            ...Array.from(names).map((name) => ({
+              label: `$(folder) ${name}`,
+              group: name,
+            })),
+          ];
+          const group = await vscode.window.showQuickPick(groups, {
+            placeHolder: "Show patterns in group",
+          });
+          if (!group) {
+            return;
+          }
+          filter.group = group.group;
+          break;
+        }
+        case "clear":
+          this.treeProvider.setFilter(undefined);
+          return;
+      }
+
+      this.treeProvider.setFilter(filter);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to filter patterns: ${error}`);
+    }
+  }
+
+  /**
+   * Open a read-only document listing only the lines of a file that match
+   * the enabled patterns, with the configured number of context lines
+   */
+  private async showMatchingLines(uri?: vscode.Uri): Promise<void> {
+    try {
+      let source = uri instanceof vscode.Uri ? uri : undefined;
+      if (!source) {
+        const document = vscode.window.activeTextEditor?.document;
+        if (!document) {
+          vscode.window.showInformationMessage("No active editor");
+          return;
+        }
+        source =
+          MatchingLinesProvider.parseUri(document.uri)?.source || document.uri;
+      }
+
+      if (this.patternManager.getEnabledPatterns().length === 0) {
+        vscode.window.showInformationMessage("No enabled patterns to match");
+        return;
+      }
+
+      const contextLines = vscode.workspace
+        .getConfiguration("patternColorization")
+        .get<number>("matchingLinesContext", 0);
+      const document = await vscode.workspace.openTextDocument(
+        MatchingLinesProvider.getUri(source, Math.max(0, contextLines))
+      );
+      await vscode.window.showTextDocument(document, { preview: false });
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to show matching lines: ${error}`);
+    }
+  }
+
+  /**
+   * Jump from the cursor line of a matching lines document to the line in
+   * its source file
+   */
+  private async goToSourceLine(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      return;
+    }
+
+    const location = MatchingLinesProvider.getSourceLocation(
+      editor.document,
+      editor.selection.active.line
+    );
+    if (!location) {
+      return;
+    }
+
+    try {
+      const line = new vscode.Position(location.line, 0);
+      await vscode.window.showTextDocument(location.uri, {
+        selection: new vscode.Range(line, line),
+        preview: false,
+      });
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to open source line: ${error}`);
+    }
+  }
+
+  /**
+   * Follow the active editor's file as it grows
+   */
+  private followFile(): void {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showInformationMessage("No active editor");
+      return;
+    }
+
+    this.logFollower.follow(editor);
+    vscode.window.setStatusBarMessage(
+      `Following ${editor.document.fileName}`,
+      2000
+    );
+  }
+
+  /**
+   * Stop following a file, by default the active editor's file
+   */
+  private stopFollowing(uri?: vscode.Uri): void {
+    const target =
+      uri instanceof vscode.Uri
+        ? uri
+        : vscode.window.activeTextEditor?.document.uri;
+    if (target) {
+      this.logFollower.stopFollowing(target);
+    }
+  }
+
+  /**
+   * Highlight a file over the size threshold anyway, by default the active
+   * editor's file
+   */
+  private highlightLargeFile(uri?: vscode.Uri): void {
+    const target =
+      uri instanceof vscode.Uri
+        ? uri
+        : vscode.window.activeTextEditor?.document.uri;
+    if (target) {
+      this.decorationManager.highlightLargeFile(target);
+    }
+  }
+
+  /**
+   * Ids of the patterns a tree command applies to: the whole selection when
+   * the clicked pattern is part of it, otherwise just the clicked pattern
+   */
+  private getTargetPatternIds(item?: any, selection?: any[]): string[] {
+    const ids = (selection || [])
+      .filter((selected) => selected?.contextValue === "patternItem")
+      .map((selected) => selected.id as string);
+    if (item?.id && ids.includes(item.id)) {
+      return ids;
+    }
+    return typeof item?.id === "string" ? [item.id] : [];
+  }
 }
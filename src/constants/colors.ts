@@ -1,4 +1,4 @@
-import { ColorDefinition } from '../models/pattern';
+import { ColorDefinition, PatternStyleDefinition, RulerLane } from '../models/pattern';
 
 /**
  * Predefined color palette for pattern highlighting
@@ -56,9 +56,110 @@ export const COLOR_PALETTE: ColorDefinition[] = [
 ];
 
 /**
- * Maximum number of patterns that can be active simultaneously
+ * Decoration styles a pattern can use, in picker order
  */
-export const MAX_PATTERNS = 8;
+export const PATTERN_STYLES: PatternStyleDefinition[] = [
+  { id: 'background', name: 'Background', icon: 'symbol-color' },
+  { id: 'border', name: 'Border Only', icon: 'primitive-square' },
+  { id: 'underline', name: 'Underline', icon: 'remove' },
+  { id: 'underlineWavy', name: 'Wavy Underline', icon: 'pulse' },
+  { id: 'underlineDotted', name: 'Dotted Underline', icon: 'ellipsis' },
+  { id: 'foreground', name: 'Text Color Only', icon: 'symbol-text' },
+  { id: 'bold', name: 'Bold', icon: 'bold' },
+  { id: 'italic', name: 'Italic', icon: 'italic' },
+  { id: 'wholeLine', name: 'Whole Line', icon: 'list-flat' }
+];
+
+/**
+ * Multi-color schemes a pattern group can use; every palette color is also
+ * offered as a single-color scheme
+ */
+export const GROUP_COLOR_SCHEMES: Array<{ name: string; colors: number[] }> = [
+  { name: 'Full Palette', colors: [0, 1, 2, 3, 4, 5, 6, 7] },
+  { name: 'Cool', colors: [0, 6, 1, 4] },
+  { name: 'Warm', colors: [3, 2, 5] }
+];
+
+/**
+ * Overview ruler lanes a pattern can use, in picker order
+ */
+export const RULER_LANES: Array<{ id: RulerLane; name: string }> = [
+  { id: 'left', name: 'Left' },
+  { id: 'center', name: 'Center' },
+  { id: 'right', name: 'Right' },
+  { id: 'full', name: 'Full Width' }
+];
+
+/**
+ * Default for the `patternColorization.maxPatterns` setting (0 means no limit)
+ */
+export const DEFAULT_MAX_PATTERNS = 0;
+
+/**
+ * Accepted format for user-defined colors
+ */
+export const HEX_COLOR_REGEX = /^#?([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+
+/**
+ * Flags accepted on regular expression patterns ("g" is always applied)
+ */
+export const ALLOWED_REGEX_FLAGS = 'imsu';
+
+/**
+ * Safety limits applied when matching regular expression patterns
+ */
+export const REGEX_LIMITS = {
+  /** Maximum number of matches collected per pattern and document */
+  MAX_MATCHES: 50000,
+  /** Time budget in milliseconds for matching one pattern in one document */
+  TIME_BUDGET_MS: 250,
+} as const;
+
+/**
+ * Number of pattern operations kept for undo
+ */
+export const HISTORY_LIMIT = 50;
+
+/**
+ * Limits for highlighting large documents
+ */
+export const LARGE_FILE_LIMITS = {
+  /** Documents larger than this (in characters) highlight the visible lines first and match the rest in the background */
+  PROGRESSIVE_SIZE: 1024 * 1024,
+  /** Lines highlighted above and below the visible ranges before the background matching finishes */
+  VISIBLE_MARGIN_LINES: 100,
+} as const;
+
+/**
+ * Limits for matching in worker threads
+ */
+export const WORKER_LIMITS = {
+  /** Documents smaller than this (in characters) are matched on the extension host thread */
+  MIN_SIZE: 256 * 1024,
+  /** Maximum number of worker threads */
+  MAX_WORKERS: 4,
+  /** Milliseconds a worker may spend on one request before it is terminated */
+  TASK_TIMEOUT: 30 * 1000,
+} as const;
+
+/**
+ * Limits applied when searching the whole workspace
+ */
+export const WORKSPACE_SEARCH_LIMITS = {
+  /** Files larger than this (in bytes) are skipped */
+  MAX_FILE_SIZE: 10 * 1024 * 1024,
+  /** The search stops once this many matches have been collected */
+  MAX_RESULTS: 20000,
+  /** Maximum length of a line preview */
+  PREVIEW_LENGTH: 200,
+  /** Characters kept before the match in a line preview */
+  PREVIEW_CONTEXT: 40,
+} as const;
+
+/**
+ * Maximum number of matches listed under a pattern in the Patterns view
+ */
+export const TREE_MATCH_LIMIT = 500;
 
 /**
  * Default pattern configuration
@@ -69,11 +170,39 @@ export const DEFAULT_CONFIG = {
   enabled: true
 };
 
+/**
+ * Default location of the shared patterns file, relative to the workspace folder
+ */
+export const DEFAULT_STORAGE_FILE = '.vscode/pattern-colorization.json';
+
+/**
+ * Version of the export file format. Files without a version are treated as
+ * version 1 (a bare array of patterns).
+ */
+export const EXPORT_FORMAT_VERSION = 2;
+
+/**
+ * File name suffix of export files; the JSON Schema is registered for it
+ */
+export const EXPORT_FILE_SUFFIX = '.patterns.json';
+
+/**
+ * Pattern set created for workspaces that have not defined any sets yet
+ */
+export const DEFAULT_PATTERN_SET = {
+  id: 'default',
+  name: 'Default'
+} as const;
+
 /**
  * Storage keys for VS Code workspace state
  */
 export const STORAGE_KEYS = {
   PATTERNS: 'patternColorization.patterns',
+  USER_PATTERNS: 'patternColorization.userPatterns',
+  USER_GROUPS: 'patternColorization.userGroups',
+  PATTERN_SETS: 'patternColorization.patternSets',
+  ACTIVE_SET: 'patternColorization.activeSet',
   CONFIG: 'patternColorization.config',
   LAST_COLOR_INDEX: 'patternColorization.lastColorIndex'
 } as const;
\ No newline at end of file
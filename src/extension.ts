@@ -2,8 +2,16 @@ import * as vscode from "vscode";
 import { PatternManager } from "./services/patternManager";
 import { DecorationManager } from "./services/decorationManager";
 import { PatternTreeProvider } from "./views/patternTreeProvider";
+import { OccurrencesTreeProvider } from "./views/occurrencesTreeProvider";
+import { PatternDragAndDropController } from "./views/patternDragAndDropController";
 import { PatternCommands } from "./commands/patternCommands";
 import { TreeDecorationProvider } from "./services/treeDecorationProvider";
+import { PatternHoverProvider } from "./services/patternHoverProvider";
+import {
+  MATCHING_LINES_SCHEME,
+  MatchingLinesProvider,
+} from "./services/matchingLinesProvider";
+import { LogFollower } from "./services/logFollower";
 
 /**
  * Main extension class that manages the lifecycle and coordination of all components
@@ -13,8 +21,12 @@ class PatternColorizationExtension {
   private decorationManager!: DecorationManager;
   private treeProvider!: PatternTreeProvider;
   private treeView!: vscode.TreeView<any>;
+  private occurrencesProvider!: OccurrencesTreeProvider;
+  private occurrencesView!: vscode.TreeView<any>;
+  private logFollower!: LogFollower;
   private patternCommands!: PatternCommands;
   private treeDecorationProvider!: TreeDecorationProvider;
+  private patternSetStatusBarItem!: vscode.StatusBarItem;
 
   /**
    * Activate the extension
@@ -78,6 +90,14 @@ class PatternColorizationExtension {
         this.treeView.dispose();
       }
 
+      if (this.occurrencesProvider) {
+        this.occurrencesProvider.dispose();
+      }
+
+      if (this.logFollower) {
+        this.logFollower.dispose();
+      }
+
       console.log("Pattern Colorization extension deactivated successfully");
     } catch (error) {
       console.error("Error during extension deactivation:", error);
@@ -97,8 +117,17 @@ class PatternColorizationExtension {
       context
     );
 
+    // Initialize follow mode for growing log files
+    this.logFollower = new LogFollower(this.decorationManager);
+
     // Initialize tree provider
-    this.treeProvider = new PatternTreeProvider(this.patternManager);
+    this.treeProvider = new PatternTreeProvider(
+      this.patternManager,
+      this.decorationManager
+    );
+
+    // Initialize workspace occurrences provider
+    this.occurrencesProvider = new OccurrencesTreeProvider();
 
     // Initialize tree decoration provider
     this.treeDecorationProvider = new TreeDecorationProvider();
@@ -111,12 +140,39 @@ class PatternColorizationExtension {
     // Create tree view for Explorer with enhanced accessibility
     this.treeView = vscode.window.createTreeView("patternColorizationView", {
       treeDataProvider: this.treeProvider,
-      showCollapseAll: false,
-      canSelectMany: false,
-      dragAndDropController: undefined, // Disable for now
-      manageCheckboxStateManually: false,
+      showCollapseAll: true,
+      canSelectMany: true,
+      dragAndDropController: new PatternDragAndDropController(
+        this.patternManager
+      ),
+      manageCheckboxStateManually: true,
     });
 
+    // List every pattern matching at the hovered position
+    context.subscriptions.push(
+      vscode.languages.registerHoverProvider(
+        "*",
+        new PatternHoverProvider(this.decorationManager)
+      )
+    );
+
+    // Read-only documents listing only the matching lines of a file
+    const matchingLinesProvider = new MatchingLinesProvider(
+      this.patternManager,
+      this.decorationManager
+    );
+    context.subscriptions.push(
+      matchingLinesProvider,
+      vscode.workspace.registerTextDocumentContentProvider(
+        MATCHING_LINES_SCHEME,
+        matchingLinesProvider
+      ),
+      vscode.languages.registerDocumentLinkProvider(
+        { scheme: MATCHING_LINES_SCHEME },
+        matchingLinesProvider
+      )
+    );
+
     // Register tree decoration provider for styling disabled patterns
     const decorationProviderDisposable =
       vscode.window.registerFileDecorationProvider(this.treeDecorationProvider);
@@ -134,9 +190,20 @@ class PatternColorizationExtension {
       initialPatterns
     );
 
+    // Status bar picker for the active pattern set
+    this.patternSetStatusBarItem = vscode.window.createStatusBarItem(
+      "patternColorization.patternSet",
+      vscode.StatusBarAlignment.Left,
+      100
+    );
+    this.patternSetStatusBarItem.name = "Pattern Colorization: Pattern Set";
+    this.patternSetStatusBarItem.command = "patternColorization.switchPatternSet";
+    context.subscriptions.push(this.patternSetStatusBarItem);
+
     // Update tree view description dynamically
     this.updateTreeViewDescription();
     this.updateTreeViewBadge();
+    this.updatePatternSetStatusBarItem();
 
     // Set initial state for decoration provider
     const initialConfig = this.patternManager.getConfig();
@@ -147,6 +214,7 @@ class PatternColorizationExtension {
       console.log("Extension: Pattern change detected, updating UI");
       this.updateTreeViewDescription();
       this.updateTreeViewBadge();
+      this.updatePatternSetStatusBarItem();
       this.updateStatusBar();
       // Update decoration provider with current global state
       const config = this.patternManager.getConfig();
@@ -155,7 +223,24 @@ class PatternColorizationExtension {
       this.treeProvider.refresh();
     });
 
+    this.treeProvider.onDidChangeFilter(() => {
+      this.updateTreeViewDescription();
+    });
+
     // Setup tree view event handlers
+    this.treeView.onDidChangeCheckboxState(async (event) => {
+      try {
+        await this.treeProvider.handleCheckboxChange(
+          event.items,
+          this.treeView.selection
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to update patterns: ${error}`);
+        // Show the checkboxes of the unchanged patterns again
+        this.treeProvider.refresh();
+      }
+    });
+
     this.treeView.onDidChangeSelection((event) => {
       // Handle selection changes for accessibility
       if (event.selection.length > 0) {
@@ -186,6 +271,19 @@ class PatternColorizationExtension {
     });
 
     context.subscriptions.push(this.treeView);
+
+    // Workspace occurrence search results
+    this.occurrencesView = vscode.window.createTreeView(
+      "patternColorizationOccurrences",
+      {
+        treeDataProvider: this.occurrencesProvider,
+        showCollapseAll: true,
+      }
+    );
+    this.occurrencesProvider.onDidChangeTreeData(() => {
+      this.occurrencesView.description = this.occurrencesProvider.getSummary();
+    });
+    context.subscriptions.push(this.occurrencesView);
   }
 
   /**
@@ -196,6 +294,8 @@ class PatternColorizationExtension {
       this.patternManager,
       this.decorationManager,
       this.treeProvider,
+      this.occurrencesProvider,
+      this.logFollower,
       context
     );
   }
@@ -313,7 +413,8 @@ class PatternColorizationExtension {
   private updateTreeViewDescription(): void {
     if (this.treeView && this.treeProvider) {
       const summary = this.treeProvider.getGlobalStateDescription();
-      this.treeView.description = summary;
+      const filter = this.treeProvider.getFilterDescription();
+      this.treeView.description = filter ? `${summary} • ${filter}` : summary;
     }
   }
 
@@ -330,7 +431,7 @@ class PatternColorizationExtension {
         this.treeView.badge = {
           tooltip: `${enabledCount} active pattern${
             enabledCount !== 1 ? "s" : ""
-          }`,
+          } (set: ${this.patternManager.getActiveSet().name})`,
           value: enabledCount,
         };
       } else {
@@ -339,6 +440,26 @@ class PatternColorizationExtension {
     }
   }
 
+  /**
+   * Update the status bar item showing the active pattern set
+   */
+  private updatePatternSetStatusBarItem(): void {
+    if (!this.patternSetStatusBarItem) {
+      return;
+    }
+
+    const activeSet = this.patternManager.getActiveSet();
+    const setCount = this.patternManager.getPatternSets().length;
+
+    this.patternSetStatusBarItem.text = `$(layers) ${activeSet.name}`;
+    this.patternSetStatusBarItem.tooltip = `Pattern set: ${
+      activeSet.name
+    } (${activeSet.patterns.length} pattern${
+      activeSet.patterns.length !== 1 ? "s" : ""
+    }, ${setCount} set${setCount !== 1 ? "s" : ""}) - Click to switch`;
+    this.patternSetStatusBarItem.show();
+  }
+
   /**
    * Update status bar with extension information
    */
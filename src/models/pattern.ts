@@ -1,19 +1,194 @@
+/**
+ * How the text of a pattern is interpreted when matching
+ */
+export type PatternKind = "literal" | "regex";
+
+/**
+ * Where a pattern is stored: per user (all workspaces) or per workspace
+ */
+export type PatternScope = "user" | "workspace";
+
+/**
+ * How matches of a pattern are rendered in the editor:
+ * - background: filled background with a border (default)
+ * - border: border only, no fill
+ * - underline / underlineWavy / underlineDotted: colored underline
+ * - foreground: colored text only
+ * - bold / italic: colored text in bold or italic
+ * - wholeLine: background across every line containing a match
+ */
+export type PatternStyle =
+  | "background"
+  | "border"
+  | "underline"
+  | "underlineWavy"
+  | "underlineDotted"
+  | "foreground"
+  | "bold"
+  | "italic"
+  | "wholeLine";
+
+/**
+ * Overview ruler lane in which a pattern's matches are marked
+ */
+export type RulerLane = "left" | "center" | "right" | "full";
+
+/**
+ * How overlapping matches of different patterns are rendered:
+ * - stack: every match is decorated, drawn on top of each other
+ * - highestPriority: only the match of the highest-priority pattern is kept
+ * - longestMatch: only the longest match is kept, ties go to priority
+ */
+export type OverlapPolicy = "stack" | "highestPriority" | "longestMatch";
+
 /**
  * Represents a pattern to be highlighted with its associated color
  */
 export interface Pattern {
   /** Unique identifier for the pattern */
   id: string;
-  /** The text pattern to match */
+  /** The text pattern to match (the expression source for regex patterns) */
   text: string;
+  /** Whether the text is matched literally or as a regular expression */
+  kind: PatternKind;
+  /** Regular expression flags (regex patterns only, subset of "imsu") */
+  flags?: string;
+  /** Storage scope; workspace patterns take precedence over user patterns with the same text */
+  scope: PatternScope;
   /** Color index (0-7) corresponding to one of 8 predefined colors */
   colorIndex: number;
+  /** Optional user-defined color; takes precedence over the preset color */
+  customColor?: CustomColor;
+  /** Decoration style; "background" when unset */
+  style?: PatternStyle;
+  /** Whether lines with a match get a marker in the gutter */
+  gutterIcon?: boolean;
+  /** Overview ruler lane for matches; "right" when unset */
+  rulerLane?: RulerLane;
+  /** Name of the group the pattern is listed under, within its scope */
+  group?: string;
   /** Whether this pattern is currently active */
   enabled: boolean;
   /** Timestamp when pattern was created */
   createdAt: number;
   /** Optional description for the pattern */
   description?: string;
+  /** Per-pattern case sensitivity; falls back to the global setting when unset */
+  caseSensitive?: boolean;
+  /** Per-pattern whole-word matching; falls back to the global setting when unset */
+  wholeWord?: boolean;
+}
+
+/**
+ * User-defined highlight color with a variant per theme kind
+ */
+export interface CustomColor {
+  /** Hex color (#RRGGBB) used with light themes */
+  light: string;
+  /** Hex color (#RRGGBB) used with dark and high contrast themes */
+  dark: string;
+}
+
+/**
+ * Settings of a pattern group. A group exists while patterns refer to it;
+ * this only holds what cannot be derived from the patterns.
+ */
+export interface PatternGroup {
+  /** Group name, unique within its scope */
+  name: string;
+  /** Palette color indices assigned in turn to the patterns of the group */
+  colorScheme?: number[];
+}
+
+/**
+ * A named set of workspace patterns that can be switched as a unit
+ */
+export interface PatternSet {
+  /** Unique identifier for the set */
+  id: string;
+  /** Display name, unique within the workspace */
+  name: string;
+  /** Workspace patterns belonging to the set */
+  patterns: Pattern[];
+  /** Settings of the groups used by the set's patterns */
+  groups?: PatternGroup[];
+  /** Timestamp when the set was created */
+  createdAt: number;
+}
+
+/**
+ * How imported patterns are combined with the existing ones:
+ * - replace: the workspace patterns are replaced by the imported ones
+ * - append: only patterns that do not exist yet are added
+ * - update: existing patterns with the same text take the imported settings
+ */
+export type ImportMode = "replace" | "append" | "update";
+
+/**
+ * What importing a single incoming pattern will do
+ */
+export interface ImportCandidate {
+  /** The pattern as it will be stored (id and color already resolved) */
+  pattern: Pattern;
+  /** Whether the pattern is added, updates an existing one, or is skipped */
+  action: "add" | "update" | "skip";
+  /** The existing pattern with the same text, if any */
+  existing?: Pattern;
+  /** Color index from the file when it was reassigned to avoid a collision */
+  originalColorIndex?: number;
+  /** Why the pattern is skipped */
+  reason?: string;
+}
+
+/**
+ * Preview of an import, computed before anything changes
+ */
+export interface ImportPlan {
+  mode: ImportMode;
+  /** One entry per valid incoming pattern, in file order */
+  candidates: ImportCandidate[];
+  /** Existing patterns that the import removes (replace mode) */
+  removed: Pattern[];
+  /** Number of entries in the file that are not valid patterns */
+  invalidCount: number;
+}
+
+/**
+ * Information about where and when an export file was created
+ */
+export interface PatternExportMetadata {
+  /** ISO 8601 timestamp of the export */
+  exportedAt: string;
+  /** Extension name and version that wrote the file */
+  exportedBy: string;
+  /** Name of the exported workspace, if any */
+  workspace?: string;
+}
+
+/**
+ * Versioned export file envelope. Pattern entries are kept loosely typed
+ * because they are validated when imported.
+ */
+export interface PatternExport {
+  /** Format version, see EXPORT_FORMAT_VERSION */
+  version: number;
+  metadata?: PatternExportMetadata;
+  /** Global matching configuration at the time of the export */
+  config?: Partial<PatternConfig>;
+  /** Name of the pattern set that was active */
+  activeSet?: string;
+  /** Pattern sets with their workspace patterns */
+  sets: Array<{
+    id?: string;
+    name: string;
+    createdAt?: number;
+    patterns: any[];
+    groups?: PatternGroup[];
+  }>;
+  /** User patterns, available in every workspace */
+  userPatterns: any[];
+  /** Settings of the groups used by the user patterns */
+  userGroups?: PatternGroup[];
 }
 
 /**
@@ -28,6 +203,32 @@ export interface PatternConfig {
   enabled: boolean;
 }
 
+/**
+ * Display information for a decoration style
+ */
+export interface PatternStyleDefinition {
+  id: PatternStyle;
+  /** Display name */
+  name: string;
+  /** Codicon shown in pickers */
+  icon: string;
+}
+
+/**
+ * Criteria narrowing the Patterns view; a pattern is shown when it matches
+ * all of the criteria that are set
+ */
+export interface PatternFilter {
+  /** Case-insensitive text found in the pattern text or description */
+  text?: string;
+  /** Preset color index, or "custom" for patterns with a custom color */
+  color?: number | "custom";
+  /** Enabled state */
+  enabled?: boolean;
+  /** Group name */
+  group?: string;
+}
+
 /**
  * Color definition for highlighting
  */
@@ -54,6 +255,64 @@ export interface ExtensionState {
   lastColorIndex: number;
 }
 
+/**
+ * A reversible pattern operation, stored as snapshots of the patterns before
+ * and after it
+ */
+export interface HistoryEntry {
+  /** Description shown when undoing or redoing, e.g. 'Remove "ERROR"' */
+  label: string;
+  before: Pattern[];
+  after: Pattern[];
+  /** Group settings before and after, for operations that change them */
+  groups?: { before: GroupSettings; after: GroupSettings };
+}
+
+/**
+ * Group settings of both scopes; workspace groups are the active set's
+ */
+export interface GroupSettings {
+  user: PatternGroup[];
+  workspace: PatternGroup[];
+}
+
+/**
+ * All matches of a pattern on one line of a file
+ */
+export interface LineOccurrence {
+  /** Zero-based line number */
+  line: number;
+  /** Trimmed text of the line around the first match */
+  preview: string;
+  /** Match ranges as [start, end] columns within the preview */
+  previewRanges: Array<[number, number]>;
+  /** Column range of the first match on the line */
+  column: number;
+  endColumn: number;
+  /** Number of matches on the line */
+  count: number;
+}
+
+/**
+ * Matches of a pattern in one file
+ */
+export interface FileOccurrences {
+  uri: string;
+  lines: LineOccurrence[];
+  /** Total number of matches in the file */
+  count: number;
+}
+
+/**
+ * Workspace search result for one pattern
+ */
+export interface PatternOccurrences {
+  pattern: Pattern;
+  files: FileOccurrences[];
+  /** Total number of matches across all files */
+  count: number;
+}
+
 /**
  * Event types for pattern changes
  */
@@ -62,7 +321,8 @@ export enum PatternEventType {
   REMOVED = 'removed',
   UPDATED = 'updated',
   CLEARED = 'cleared',
-  TOGGLED = 'toggled'
+  TOGGLED = 'toggled',
+  SET_CHANGED = 'setChanged'
 }
 
 /**
@@ -82,7 +342,26 @@ export interface PatternTreeItem {
   label: string;
   description: string;
   colorIndex: number;
+  customColor?: CustomColor;
   enabled: boolean;
   contextValue: string;
   globalEnabled?: boolean;
+  scope?: PatternScope;
+  /** Whether a workspace pattern with the same text overrides this user pattern */
+  shadowed?: boolean;
+  /** Group name (pattern and group items) */
+  group?: string;
+  /** Number of matches in the active editor (pattern items) */
+  matchCount?: number;
+  /** Location and preview of a single match (match items) */
+  match?: {
+    uri: string;
+    line: number;
+    character: number;
+    endLine: number;
+    endCharacter: number;
+    /** Trimmed line text with the match range inside it */
+    preview: string;
+    previewRange: [number, number];
+  };
 }
\ No newline at end of file
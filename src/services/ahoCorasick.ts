@@ -0,0 +1,162 @@
+/**
+ * Lower case of each UTF-16 code unit. Code units whose lower case takes more
+ * than one unit (such as "İ") are kept, so folded text has the same offsets
+ * as the original.
+ */
+let foldTable: Uint16Array | undefined;
+
+/**
+ * Get the case folding table, building it on first use
+ */
+function getFoldTable(): Uint16Array {
+  if (!foldTable) {
+    foldTable = new Uint16Array(65536);
+    for (let code = 0; code < 65536; code++) {
+      const lower = String.fromCharCode(code).toLowerCase();
+      foldTable[code] = lower.length === 1 ? lower.charCodeAt(0) : code;
+    }
+  }
+  return foldTable;
+}
+
+/**
+ * Lower-case text one code unit at a time. Unlike `toLowerCase`, the result
+ * always has the same length as the input, so match offsets found in it are
+ * valid in the original text.
+ */
+export function foldCase(text: string): string {
+  // toLowerCase maps each code unit on its own except where the result grows
+  // (such as "İ") and for the context-dependent final sigma
+  const lower = text.toLowerCase();
+  if (lower.length === text.length && !text.includes("\u03a3")) {
+    return lower;
+  }
+
+  const table = getFoldTable();
+  const chunkSize = 8192;
+  const codes = new Uint16Array(Math.min(chunkSize, text.length));
+  const chunks: string[] = [];
+  for (let start = 0; start < text.length; start += chunkSize) {
+    const end = Math.min(text.length, start + chunkSize);
+    for (let i = start; i < end; i++) {
+      codes[i - start] = table[text.charCodeAt(i)];
+    }
+    chunks.push(String.fromCharCode(...codes.subarray(0, end - start)));
+  }
+  return chunks.join("");
+}
+
+/**
+ * Aho–Corasick automaton: finds every occurrence of a set of keywords,
+ * including overlapping ones, in a single pass over the text. Compiled to a
+ * dense transition table over the characters used in the keywords, so each
+ * character of the text costs one table lookup.
+ */
+export class AhoCorasick {
+  /** Column of each UTF-16 code unit; 0 for units in no keyword */
+  private columns = new Uint16Array(65536);
+  /** Number of columns: the distinct keyword characters plus column 0 */
+  private width = 1;
+  /** Next state for each state and column, row by row */
+  private transitions: Int32Array;
+  /** Keywords ending in each state, including through failure links */
+  private outputs: number[][] = [[]];
+
+  /**
+   * Build the automaton. Empty keywords never match.
+   */
+  constructor(keywords: string[]) {
+    keywords.forEach((keyword) => {
+      for (let i = 0; i < keyword.length; i++) {
+        const code = keyword.charCodeAt(i);
+        if (this.columns[code] === 0) {
+          this.columns[code] = this.width++;
+        }
+      }
+    });
+
+    // Build the keyword trie, then complete it into the transition table
+    const trie: Array<Map<number, number>> = [new Map()];
+    keywords.forEach((keyword, index) => {
+      if (!keyword) {
+        return;
+      }
+      let state = 0;
+      for (let i = 0; i < keyword.length; i++) {
+        const column = this.columns[keyword.charCodeAt(i)];
+        let next = trie[state].get(column);
+        if (next === undefined) {
+          next = trie.length;
+          trie.push(new Map());
+          this.outputs.push([]);
+          trie[state].set(column, next);
+        }
+        state = next;
+      }
+      this.outputs[state].push(index);
+    });
+    this.transitions = this.buildTransitions(trie);
+  }
+
+  /**
+   * Report every keyword occurrence as the keyword index and the offset
+   * just past its end, in order of end offset. With `fold` set, the text is
+   * matched as if passed through `foldCase`; keywords must be folded already.
+   */
+  public search(
+    text: string,
+    onMatch: (keyword: number, end: number) => void,
+    fold = false
+  ): void {
+    const table = fold ? getFoldTable() : undefined;
+    const { columns, width, transitions, outputs } = this;
+    let state = 0;
+    for (let i = 0; i < text.length; i++) {
+      const code = table ? table[text.charCodeAt(i)] : text.charCodeAt(i);
+      state = transitions[state * width + columns[code]];
+
+      const found = outputs[state];
+      for (let k = 0; k < found.length; k++) {
+        onMatch(found[k], i + 1);
+      }
+    }
+  }
+
+  /**
+   * Fill in the transition of every state and column breadth first: a
+   * missing trie edge follows the failure state's transition, and each
+   * state inherits the outputs of its failure state
+   */
+  private buildTransitions(trie: Array<Map<number, number>>): Int32Array {
+    const width = this.width;
+    const transitions = new Int32Array(trie.length * width);
+    const failure = new Int32Array(trie.length);
+
+    const queue: number[] = [];
+    trie[0].forEach((next, column) => {
+      transitions[column] = next;
+      queue.push(next);
+    });
+
+    for (let head = 0; head < queue.length; head++) {
+      const state = queue[head];
+      const fallback = failure[state];
+      for (let column = 1; column < width; column++) {
+        const next = trie[state].get(column);
+        if (next === undefined) {
+          transitions[state * width + column] =
+            transitions[fallback * width + column];
+        } else {
+          transitions[state * width + column] = next;
+          failure[next] = transitions[fallback * width + column];
+          this.outputs[next] = [
+            ...this.outputs[next],
+            ...this.outputs[failure[next]],
+          ];
+          queue.push(next);
+        }
+      }
+    }
+    return transitions;
+  }
+}
@@ -0,0 +1,75 @@
+import * as vscode from "vscode";
+import { ColorDefinition, CustomColor, Pattern } from "../models/pattern";
+import { COLOR_PALETTE, HEX_COLOR_REGEX } from "../constants/colors";
+
+/**
+ * Helpers for preset and user-defined pattern colors
+ */
+export class ColorService {
+  /**
+   * Check whether a string is an accepted hex color
+   */
+  public static isValidHex(value: string): boolean {
+    return HEX_COLOR_REGEX.test(value.trim());
+  }
+
+  /**
+   * Normalize a hex color to the #RRGGBB upper-case form
+   */
+  public static normalizeHex(value: string): string {
+    let hex = value.trim().replace(/^#/, "").toUpperCase();
+    if (hex.length === 3) {
+      hex = hex
+        .split("")
+        .map((char) => char + char)
+        .join("");
+    }
+    return `#${hex}`;
+  }
+
+  /**
+   * Stable key identifying a custom color, used to share decoration types
+   */
+  public static getColorKey(color: CustomColor): string {
+    return `${color.light}|${color.dark}`;
+  }
+
+  /**
+   * Get the color definition for a pattern, preset or custom
+   */
+  public static getColorDefinition(pattern: Pattern): ColorDefinition {
+    if (pattern.customColor) {
+      return {
+        name: `Custom (${pattern.customColor.light} / ${pattern.customColor.dark})`,
+        light: pattern.customColor.light,
+        dark: pattern.customColor.dark,
+        border: pattern.customColor.light,
+      };
+    }
+    return COLOR_PALETTE[pattern.colorIndex] || COLOR_PALETTE[0];
+  }
+
+  /**
+   * Create a data URI for a filled circle icon in the given color
+   */
+  public static createIconUri(color: string): vscode.Uri {
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 16 16">` +
+      `<circle cx="8" cy="8" r="5" fill="${color}"/></svg>`;
+    return vscode.Uri.parse(
+      `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`
+    );
+  }
+
+  /**
+   * Create a data URI for a gutter marker (rounded bar) in the given color
+   */
+  public static createGutterIconUri(color: string): vscode.Uri {
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 16 16">` +
+      `<rect x="5" y="1" width="6" height="14" rx="3" fill="${color}"/></svg>`;
+    return vscode.Uri.parse(
+      `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`
+    );
+  }
+}
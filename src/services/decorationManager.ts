@@ -1,71 +1,297 @@
 import * as vscode from 'vscode';
-import { Pattern, PatternConfig } from '../models/pattern';
+import * as path from 'path';
+import { OverlapPolicy, Pattern, PatternConfig, PatternStyle, RulerLane } from '../models/pattern';
 import { PatternManager } from './patternManager';
-import { COLOR_PALETTE } from '../constants/colors';
+import { COLOR_PALETTE, LARGE_FILE_LIMITS, WORKER_LIMITS } from '../constants/colors';
+import { PatternMatch, PatternMatcher } from './patternMatcher';
+import { ColorService } from './colorService';
+import { MATCHING_LINES_SCHEME, MatchingLinesProvider } from './matchingLinesProvider';
+import { MatchCache } from './matchCache';
+import { MatchEngine } from './matchEngine';
+import { MatchJob, MatchWorkerPool } from './matchWorkerPool';
+
+/**
+ * Overview ruler lane for each pattern lane setting
+ */
+const OVERVIEW_RULER_LANES: Record<RulerLane, vscode.OverviewRulerLane> = {
+  left: vscode.OverviewRulerLane.Left,
+  center: vscode.OverviewRulerLane.Center,
+  right: vscode.OverviewRulerLane.Right,
+  full: vscode.OverviewRulerLane.Full
+};
+
+/**
+ * Colors a decoration style is rendered in
+ */
+interface StyleColors {
+  background: string | vscode.ThemeColor;
+  border: string | vscode.ThemeColor;
+  foreground: string | vscode.ThemeColor;
+  /** CSS color for properties that do not accept theme colors */
+  css: string;
+}
+
+/**
+ * Matches found in a document version: all matches per pattern (in priority
+ * order) and the ones shown after applying the overlap policy
+ */
+interface DocumentMatches {
+  version: number;
+  patterns: Pattern[];
+  matches: PatternMatch[][];
+  shown: PatternMatch[][];
+  /** Only the visible lines were matched; the rest is matched in the background */
+  partial?: boolean;
+}
+
+/**
+ * Whole-document matching running on the worker pool for a large document
+ */
+interface BackgroundMatching {
+  version: number;
+  /** Cache keys of the patterns being matched */
+  key: string;
+  /** Worker pool request, shared with other callers matching the same text */
+  job: MatchJob;
+}
+
+/**
+ * Matches found in text appended to the end of a document
+ */
+export interface AppendedMatches {
+  document: vscode.TextDocument;
+  /** Offset where the appended text starts */
+  start: number;
+  /** Number of new matches per pattern, in priority order */
+  counts: Array<{ pattern: Pattern; count: number }>;
+}
 
 /**
  * Manages text decorations for pattern highlighting across all editors
  */
 export class DecorationManager {
-  private decorationTypes: vscode.TextEditorDecorationType[] = [];
+  private decorationTypes = new Map<string, vscode.TextEditorDecorationType>();
+  private documentMatches = new Map<string, DocumentMatches>();
   private isEnabled: boolean = true;
   private updateTimeout: NodeJS.Timeout | undefined;
+  /** Start of text appended since the last update, per document */
+  private pendingAppends = new Map<string, number>();
+  /** Start of appended text whose matches are reported once background matching finishes */
+  private backgroundAppends = new Map<string, number>();
+  private readonly engine = new MatchEngine();
+  /** Debug log, shared with the match cache */
+  private readonly log = vscode.window.createOutputChannel('Pattern Colorization Debug', { log: true });
+  private readonly matchCache = new MatchCache(this.engine, this.log);
+  private readonly workerPool = new MatchWorkerPool(this.engine);
+  private _onDidAppendMatches = new vscode.EventEmitter<AppendedMatches>();
+  readonly onDidAppendMatches: vscode.Event<AppendedMatches> = this._onDidAppendMatches.event;
+  private _onDidUpdateMatches = new vscode.EventEmitter<vscode.TextDocument>();
+  readonly onDidUpdateMatches: vscode.Event<vscode.TextDocument> = this._onDidUpdateMatches.event;
+  /** Large documents highlighted at the user's request despite the size threshold */
+  private largeFileOverrides = new Set<string>();
+  private backgroundMatching = new Map<string, BackgroundMatching>();
+  /** Background matching that failed, so that version is not matched on workers again */
+  private failedMatching = new Map<string, BackgroundMatching>();
+  private visibleRangesTimeout: NodeJS.Timeout | undefined;
+  private pausedStatusBarItem: vscode.StatusBarItem;
 
   constructor(
     private patternManager: PatternManager,
     private context: vscode.ExtensionContext
   ) {
+    this.pausedStatusBarItem = vscode.window.createStatusBarItem(
+      'patternColorization.largeFile',
+      vscode.StatusBarAlignment.Left,
+      98
+    );
+    this.pausedStatusBarItem.name = 'Pattern Colorization: Large File';
     this.initializeDecorationTypes();
     this.setupEventHandlers();
     this.updateAllEditors();
   }
 
   /**
-   * Initialize decoration types for each color in the palette
+   * Reset decoration types; they are created on demand for each combination
+   * of color and style in use
    */
   private initializeDecorationTypes(): void {
     this.disposeDecorationTypes();
+  }
+
+  /**
+   * Key identifying the color of a pattern, preset or custom
+   */
+  private getColorKey(pattern: Pattern): string {
+    return pattern.customColor
+      ? ColorService.getColorKey(pattern.customColor)
+      : `preset${pattern.colorIndex}`;
+  }
 
-    COLOR_PALETTE.forEach((_, index) => {
-      const decorationType = vscode.window.createTextEditorDecorationType({
-        backgroundColor: new vscode.ThemeColor(`patternColorization.color${index}.background`),
-        borderRadius: '3px',
-        borderWidth: '2px',
-        borderStyle: 'solid',
-        borderColor: new vscode.ThemeColor(`patternColorization.color${index}.border`),
-        overviewRulerColor: new vscode.ThemeColor(`patternColorization.color${index}.border`),
-        overviewRulerLane: vscode.OverviewRulerLane.Right,
-        
-        // Enhanced accessibility and readability
-        fontWeight: '500',
-        textDecoration: 'none',
-        
-        // Better contrast - remove text shadow that can reduce readability
-        color: new vscode.ThemeColor('editor.foreground'),
-        
-        // Add outline for better visibility on all themes
-        outline: '1px solid',
-        outlineColor: new vscode.ThemeColor(`patternColorization.color${index}.border`),
-        
-        // Improved cursor and selection behavior
-        cursor: 'default',
-        
-        // Better integration with editor features
-        rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
-        
-        // Enhanced for better theme compatibility
-        isWholeLine: false
+  /**
+   * Key identifying the decoration type of a pattern (color, style and lane)
+   */
+  private getDecorationKey(pattern: Pattern): string {
+    return `${this.getColorKey(pattern)}|${pattern.style || 'background'}|${pattern.rulerLane || 'right'}`;
+  }
+
+  /**
+   * Get the decoration type drawing the gutter marker in a pattern's color
+   */
+  private getGutterDecorationType(pattern: Pattern): vscode.TextEditorDecorationType {
+    const key = `${this.getColorKey(pattern)}|gutter`;
+    let decorationType = this.decorationTypes.get(key);
+    if (!decorationType) {
+      const color = ColorService.getColorDefinition(pattern);
+      const light = pattern.customColor ? pattern.customColor.light : color.border || color.light;
+      const dark = pattern.customColor ? pattern.customColor.dark : color.border || color.dark;
+      decorationType = vscode.window.createTextEditorDecorationType({
+        gutterIconSize: 'contain',
+        light: { gutterIconPath: ColorService.createGutterIconUri(light) },
+        dark: { gutterIconPath: ColorService.createGutterIconUri(dark) }
       });
+      this.decorationTypes.set(key, decorationType);
+    }
+    return decorationType;
+  }
 
-      this.decorationTypes[index] = decorationType;
-      this.context.subscriptions.push(decorationType);
-    });
+  /**
+   * Get the decoration type used to highlight a pattern
+   */
+  private getDecorationType(pattern: Pattern): vscode.TextEditorDecorationType | undefined {
+    if (!pattern.customColor && !COLOR_PALETTE[pattern.colorIndex]) {
+      return undefined;
+    }
 
-    console.log(`Initialized ${this.decorationTypes.length} decoration types for pattern highlighting`);
+    const key = this.getDecorationKey(pattern);
+    let decorationType = this.decorationTypes.get(key);
+    if (!decorationType) {
+      decorationType = this.createDecorationType(pattern);
+      this.decorationTypes.set(key, decorationType);
+    }
+    return decorationType;
   }
 
+  /**
+   * Create the decoration type for the color and style of a pattern
+   */
+  private createDecorationType(pattern: Pattern): vscode.TextEditorDecorationType {
+    const style = pattern.style || 'background';
+    const options: vscode.DecorationRenderOptions = {
+      overviewRulerLane: OVERVIEW_RULER_LANES[pattern.rulerLane || 'right'],
+      cursor: 'default',
+      rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+      isWholeLine: style === 'wholeLine'
+    };
+
+    if (pattern.customColor) {
+      const { light, dark } = pattern.customColor;
+      // Same translucency as the themed presets, per theme kind
+      return vscode.window.createTextEditorDecorationType({
+        ...options,
+        light: this.getStyleOptions(style, {
+          background: `${light}40`,
+          border: light,
+          foreground: light,
+          css: light
+        }),
+        dark: this.getStyleOptions(style, {
+          background: `${dark}60`,
+          border: dark,
+          foreground: dark,
+          css: dark
+        })
+      });
+    }
+
+    const prefix = `patternColorization.color${pattern.colorIndex}`;
+    return vscode.window.createTextEditorDecorationType({
+      ...options,
+      ...this.getStyleOptions(style, {
+        background: new vscode.ThemeColor(`${prefix}.background`),
+        border: new vscode.ThemeColor(`${prefix}.border`),
+        foreground: new vscode.ThemeColor(`${prefix}.foreground`),
+        css: `var(--vscode-${prefix.replace(/\./g, '-')}-foreground)`
+      })
+    });
+  }
+
+  /**
+   * Render options of a decoration style in the given colors
+   */
+  private getStyleOptions(
+    style: PatternStyle,
+    colors: StyleColors
+  ): vscode.ThemableDecorationRenderOptions {
+    const overview = { overviewRulerColor: colors.border };
+
+    switch (style) {
+      case 'border':
+        return {
+          ...overview,
+          borderRadius: '3px',
+          borderWidth: '1px',
+          borderStyle: 'solid',
+          borderColor: colors.border
+        };
+      case 'underline':
+      case 'underlineWavy':
+      case 'underlineDotted': {
+        const line = style === 'underlineWavy' ? 'wavy' : style === 'underlineDotted' ? 'dotted' : 'solid';
+        return {
+          ...overview,
+          textDecoration: `underline ${line} ${colors.css}`
+        };
+      }
+      case 'foreground':
+        return { ...overview, color: colors.foreground };
+      case 'bold':
+        return { ...overview, color: colors.foreground, fontWeight: 'bold' };
+      case 'italic':
+        return { ...overview, color: colors.foreground, fontStyle: 'italic' };
+      case 'wholeLine':
+        return { ...overview, backgroundColor: colors.background };
+      default:
+        return {
+          ...overview,
+          backgroundColor: colors.background,
+          borderRadius: '3px',
+          borderWidth: '2px',
+          borderStyle: 'solid',
+          borderColor: colors.border,
+
+          // Enhanced accessibility and readability
+          fontWeight: '500',
+          textDecoration: 'none',
 
+          // Better contrast - remove text shadow that can reduce readability
+          color: new vscode.ThemeColor('editor.foreground'),
 
+          // Add outline for better visibility on all themes
+          outline: '1px solid',
+          outlineColor: colors.border
+        };
+    }
+  }
+
+  /**
+   * Dispose decoration types no longer used by any pattern
+   */
+  private pruneDecorationTypes(): void {
+    const usedKeys = new Set<string>();
+    this.patternManager.getPatterns().forEach(p => {
+      usedKeys.add(this.getDecorationKey(p));
+      if (p.gutterIcon) {
+        usedKeys.add(`${this.getColorKey(p)}|gutter`);
+      }
+    });
+
+    this.decorationTypes.forEach((decorationType, key) => {
+      if (!usedKeys.has(key)) {
+        decorationType.dispose();
+        this.decorationTypes.delete(key);
+      }
+    });
+  }
 
   /**
    * Setup event handlers for editor changes and pattern updates
@@ -76,23 +302,48 @@ export class DecorationManager {
       if (editor) {
         this.updateEditor(editor);
       }
+      this.updatePausedStatusBar();
+    }, null, this.context.subscriptions);
+
+    // Highlight newly scrolled-to lines of large documents still being
+    // matched in the background
+    vscode.window.onDidChangeTextEditorVisibleRanges((event) => {
+      const uri = event.textEditor.document.uri.toString();
+      if (this.backgroundMatching.has(uri) || this.failedMatching.has(uri)) {
+        this.debounceUpdateVisibleRanges(event.textEditor);
+      }
     }, null, this.context.subscriptions);
 
     // Listen for text document changes
     vscode.workspace.onDidChangeTextDocument((event) => {
+      this.matchCache.applyChanges(event);
       const editor = vscode.window.visibleTextEditors.find(
         e => e.document === event.document
       );
       if (editor) {
+        this.trackAppend(event);
         this.debounceUpdateEditor(editor);
       }
     }, null, this.context.subscriptions);
 
     // Listen for pattern changes
     this.patternManager.onDidChangePatterns(() => {
+      this.pruneDecorationTypes();
+      this.matchCache.prune(this.patternManager.getPatterns(), this.patternManager.getConfig());
       this.updateAllEditors();
     }, null, this.context.subscriptions);
 
+    // Forget matches of closed documents
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      this.documentMatches.delete(document.uri.toString());
+      this.pendingAppends.delete(document.uri.toString());
+      this.backgroundAppends.delete(document.uri.toString());
+      this.matchCache.delete(document.uri);
+      this.cancelBackgroundMatching(document.uri);
+      this.failedMatching.delete(document.uri.toString());
+      this.largeFileOverrides.delete(document.uri.toString());
+    }, null, this.context.subscriptions);
+
     // Listen for visible editors changes
     vscode.window.onDidChangeVisibleTextEditors((editors) => {
       editors.forEach(editor => this.updateEditor(editor));
@@ -150,134 +401,562 @@ export class DecorationManager {
   public updateAllEditors(): void {
     if (!this.isEnabled) {
       this.clearAllDecorations();
-      return;
+    } else {
+      vscode.window.visibleTextEditors.forEach(editor => {
+        this.updateEditor(editor);
+      });
     }
-
-    vscode.window.visibleTextEditors.forEach(editor => {
-      this.updateEditor(editor);
-    });
+    this.updatePausedStatusBar();
   }
 
   /**
-   * Update decorations for a specific editor
+   * Update decorations for a specific editor. Documents over the size
+   * threshold are left unhighlighted. Large documents without cached
+   * matches are matched on the worker pool, and the largest get their
+   * visible lines highlighted first.
    */
   public updateEditor(editor: vscode.TextEditor): void {
+    const document = editor.document;
     if (!this.isEnabled) {
+      this.backgroundAppends.delete(document.uri.toString());
+      this.cancelBackgroundMatching(document.uri);
       this.clearEditorDecorations(editor);
+      this._onDidUpdateMatches.fire(document);
       return;
     }
 
-    const patterns = this.patternManager.getEnabledPatterns();
+    const patterns = this.patternManager.getPatternsByPriority();
     const config = this.patternManager.getConfig();
-    
-    // Clear existing decorations first
-    this.clearEditorDecorations(editor);
+    this.pendingAppends.delete(document.uri.toString());
+
+    if (patterns.length === 0 || this.isPaused(document)) {
+      this.backgroundAppends.delete(document.uri.toString());
+      this.cancelBackgroundMatching(document.uri);
+      this.clearEditorDecorations(editor);
+      this.documentMatches.delete(document.uri.toString());
+      this._onDidUpdateMatches.fire(document);
+      return;
+    }
 
-    if (patterns.length === 0) {
+    // After background matching failed, documents up to the progressive size
+    // are matched here and larger ones keep only their visible lines highlighted
+    const length = document.uri.scheme !== MATCHING_LINES_SCHEME ? this.getDocumentLength(document) : 0;
+    const failed = this.hasFailedMatching(document, patterns, config);
+    if (
+      length >= WORKER_LIMITS.MIN_SIZE &&
+      !this.matchCache.isCached(document, patterns, config) &&
+      !(failed && length <= LARGE_FILE_LIMITS.PROGRESSIVE_SIZE)
+    ) {
+      if (length > LARGE_FILE_LIMITS.PROGRESSIVE_SIZE) {
+        this.updateVisibleRanges(editor, patterns, config);
+      }
+      if (!failed) {
+        this.startBackgroundMatching(document, patterns, config);
+      }
+      this._onDidUpdateMatches.fire(document);
       return;
     }
+    this.cancelBackgroundMatching(document.uri);
+
+    // Find matches of every pattern, then drop overlaps according to the policy
+    const matches = this.findDocumentMatches(document, patterns, config);
+    const shown = PatternMatcher.resolveOverlaps(matches, this.getOverlapPolicy());
+    this.documentMatches.set(document.uri.toString(), {
+      version: document.version,
+      patterns,
+      matches,
+      shown
+    });
+
+    this.applyDecorations(editor, patterns, shown);
+    this._onDidUpdateMatches.fire(document);
+  }
+
+  /**
+   * Update decorations after text was appended to a document and report the
+   * matches found in the appended text
+   */
+  private updateAppended(editor: vscode.TextEditor, appendStart: number): void {
+    const document = editor.document;
+    const key = document.uri.toString();
+    this.updateEditor(editor);
+
+    if (!this.fireAppendedMatches(document, appendStart) && this.backgroundMatching.has(key)) {
+      // Report the matches once the background matching has found them
+      this.backgroundAppends.set(key, Math.min(this.backgroundAppends.get(key) ?? appendStart, appendStart));
+    }
+  }
 
-    // Group ranges by color index for efficient decoration application
-    const rangesByColor: { [colorIndex: number]: vscode.DecorationOptions[] } = {};
+  /**
+   * Report the matches in text appended to a document from its current
+   * matches. Returns false when the whole document has not been matched yet.
+   */
+  private fireAppendedMatches(document: vscode.TextDocument, appendStart: number): boolean {
+    const entry = this.documentMatches.get(document.uri.toString());
+    if (!entry || entry.version !== document.version || entry.partial) {
+      return false;
+    }
+    const counts = entry.patterns.map((pattern, index) => ({
+      pattern,
+      count: entry.matches[index].filter(match => match.end > appendStart).length
+    }));
+    this._onDidAppendMatches.fire({ document, start: appendStart, counts });
+    return true;
+  }
+
+  /**
+   * Remember where text was appended to a document whose matches are up to
+   * date, so the next update can report the matches in the appended text
+   */
+  private trackAppend(event: vscode.TextDocumentChangeEvent): void {
+    const document = event.document;
+    const key = document.uri.toString();
+    const entry = this.documentMatches.get(key);
+    const change = event.contentChanges.length === 1 ? event.contentChanges[0] : undefined;
+    const end = document.offsetAt(document.lineAt(document.lineCount - 1).range.end);
+    const isAppend =
+      !!change &&
+      document.uri.scheme !== MATCHING_LINES_SCHEME &&
+      change.rangeLength === 0 &&
+      change.rangeOffset + change.text.length === end;
+    const isUpToDate =
+      this.pendingAppends.has(key) ||
+      this.backgroundAppends.has(key) ||
+      (entry?.version === document.version - 1 && !entry.partial);
+
+    if (isAppend && isUpToDate) {
+      this.pendingAppends.set(key, Math.min(this.pendingAppends.get(key) ?? change.rangeOffset, change.rangeOffset));
+    } else {
+      this.pendingAppends.delete(key);
+      this.backgroundAppends.delete(key);
+    }
+  }
+
+  /**
+   * Apply the shown matches of each pattern to an editor
+   */
+  private applyDecorations(editor: vscode.TextEditor, patterns: Pattern[], shown: PatternMatch[][]): void {
+    const document = editor.document;
+
+    // Group ranges by decoration type for efficient decoration application
+    const rangesByType = new Map<vscode.TextEditorDecorationType, vscode.DecorationOptions[]>();
     let totalMatches = 0;
 
-    patterns.forEach(pattern => {
-      const ranges = this.findPatternRanges(editor.document, pattern, config);
-      if (ranges.length > 0) {
-        totalMatches += ranges.length;
-        
-        if (!rangesByColor[pattern.colorIndex]) {
-          rangesByColor[pattern.colorIndex] = [];
+    // Gutter markers, optionally only for the highest-priority pattern
+    // matching each line
+    const gutterHighestPriorityOnly = vscode.workspace
+      .getConfiguration('patternColorization')
+      .get<boolean>('gutterIconHighestPriorityOnly', false);
+    const gutterLines = new Set<number>();
+    const addGutterMarkers = (pattern: Pattern, ranges: vscode.Range[]) => {
+      const decorationType = this.getGutterDecorationType(pattern);
+      const lines = new Set(ranges.map(range => range.start.line));
+      const options: vscode.DecorationOptions[] = [];
+      lines.forEach(line => {
+        if (gutterHighestPriorityOnly && gutterLines.has(line)) {
+          return;
         }
-        
-        // Create decoration options with hover information for accessibility
-        const decorationOptions = ranges.map(range => {
-          const hoveredText = editor.document.getText(range);
-          const colorName = COLOR_PALETTE[pattern.colorIndex]?.name || 'Unknown';
-          
-          return {
-            range,
-            hoverMessage: new vscode.MarkdownString(
-              `**Pattern Match:** \`${hoveredText}\`\n\n` +
-              `**Color:** ${colorName}\n` +
-              `**Pattern:** "${pattern.text}"` +
-              (pattern.description ? `\n**Description:** ${pattern.description}` : '') +
-              `\n\n*Click to navigate, right-click for options*`
-            )
-          };
-        });
-        
-        rangesByColor[pattern.colorIndex].push(...decorationOptions);
+        gutterLines.add(line);
+        options.push({ range: new vscode.Range(line, 0, line, 0) });
+      });
+      rangesByType.set(decorationType, [...(rangesByType.get(decorationType) || []), ...options]);
+    };
+
+    patterns.forEach((pattern, index) => {
+      const decorationType = this.getDecorationType(pattern);
+      if (!decorationType || shown[index].length === 0) {
+        return;
+      }
+
+      // Hover information comes from PatternHoverProvider, which lists every
+      // pattern matching at a position
+      const ranges = shown[index].map(
+        match => new vscode.Range(document.positionAt(match.start), document.positionAt(match.end))
+      );
+      totalMatches += ranges.length;
+      rangesByType.set(decorationType, [
+        ...(rangesByType.get(decorationType) || []),
+        ...ranges.map(range => ({ range }))
+      ]);
+
+      if (pattern.gutterIcon) {
+        addGutterMarkers(pattern, ranges);
       }
     });
 
-    // Apply decorations with error handling
-    Object.entries(rangesByColor).forEach(([colorIndex, decorationOptions]) => {
-      const index = parseInt(colorIndex);
-      if (this.decorationTypes[index] && decorationOptions.length > 0) {
-        try {
-          editor.setDecorations(this.decorationTypes[index], decorationOptions);
-        } catch (error) {
-          console.error(`Failed to apply decorations for color index ${index}:`, error);
-        }
+    // Apply decorations with error handling; types without matches are
+    // cleared so stale highlights disappear
+    this.decorationTypes.forEach(decorationType => {
+      try {
+        editor.setDecorations(decorationType, rangesByType.get(decorationType) || []);
+      } catch (error) {
+        console.error('Failed to apply pattern decorations:', error);
       }
     });
     
     // Log statistics for debugging
     if (totalMatches > 0) {
-      console.log(`Applied ${totalMatches} pattern highlights across ${Object.keys(rangesByColor).length} colors in ${editor.document.fileName}`);
+      this.log.trace(
+        `Applied ${totalMatches} pattern highlights across ${rangesByType.size} colors in ${editor.document.fileName}`
+      );
     }
   }
 
   /**
-   * Find all ranges for a pattern in a document
+   * Find the matches of each pattern in a document, reusing cached matches
+   * where the document has not changed. In matching lines documents only the
+   * listed source text is matched, not the line numbers.
    */
-  private findPatternRanges(
+  private findDocumentMatches(
     document: vscode.TextDocument,
-    pattern: Pattern,
+    patterns: Pattern[],
     config: PatternConfig
-  ): vscode.Range[] {
-    const ranges: vscode.Range[] = [];
-    const text = document.getText();
-    const searchText = config.caseSensitive ? pattern.text : pattern.text.toLowerCase();
-    const documentText = config.caseSensitive ? text : text.toLowerCase();
-
-    let index = 0;
-    while (true) {
-      let foundIndex = documentText.indexOf(searchText, index);
-      if (foundIndex === -1) {
-        break;
-      }
+  ): PatternMatch[][] {
+    if (document.uri.scheme !== MATCHING_LINES_SCHEME) {
+      return this.matchCache.getMatches(document, patterns, config);
+    }
+
+    const { text, toDocumentOffset } = MatchingLinesProvider.getSourceText(document);
+    return this.engine.findAll(text, patterns, config).map(matches =>
+      matches.map(match => ({
+        ...match,
+        start: toDocumentOffset(match.start),
+        end: toDocumentOffset(match.end)
+      }))
+    );
+  }
+
+  /**
+   * Highlight only the visible lines of an editor, plus a margin, while the
+   * whole document is matched in the background. Patterns matching across
+   * lines only find matches within those lines until then.
+   */
+  private updateVisibleRanges(editor: vscode.TextEditor, patterns: Pattern[], config: PatternConfig): void {
+    const document = editor.document;
+    const margin = LARGE_FILE_LIMITS.VISIBLE_MARGIN_LINES;
+
+    // Expand the visible ranges by the margin and merge the ones that meet
+    const regions = editor.visibleRanges
+      .map(range => ({
+        startLine: Math.max(0, range.start.line - margin),
+        endLine: Math.min(document.lineCount - 1, range.end.line + margin)
+      }))
+      .sort((a, b) => a.startLine - b.startLine)
+      .reduce<Array<{ startLine: number; endLine: number }>>((merged, region) => {
+        const last = merged[merged.length - 1];
+        if (last && region.startLine <= last.endLine + 1) {
+          last.endLine = Math.max(last.endLine, region.endLine);
+        } else {
+          merged.push({ ...region });
+        }
+        return merged;
+      }, []);
+
+    const matches: PatternMatch[][] = patterns.map(() => []);
+    regions.forEach(({ startLine, endLine }) => {
+      const range = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).range.end.character);
+      const start = document.offsetAt(range.start);
+      this.engine.findAll(document.getText(range), patterns, config).forEach((found, index) => {
+        found.forEach(match => {
+          matches[index].push({ ...match, start: match.start + start, end: match.end + start });
+        });
+      });
+    });
+
+    const shown = PatternMatcher.resolveOverlaps(matches, this.getOverlapPolicy());
+    this.documentMatches.set(document.uri.toString(), {
+      version: document.version,
+      patterns,
+      matches,
+      shown,
+      partial: true
+    });
+    this.applyDecorations(editor, patterns, shown);
+  }
+
+  /**
+   * Match a large document on the worker pool unless it is already being
+   * matched for its current version and patterns. When done, the matches
+   * are cached and the document's editors updated from the cache.
+   */
+  private startBackgroundMatching(document: vscode.TextDocument, patterns: Pattern[], config: PatternConfig): void {
+    const uri = document.uri.toString();
+    const key = this.getPatternsKey(patterns, config);
+    const running = this.backgroundMatching.get(uri);
+    if (running && running.version === document.version && running.key === key) {
+      return;
+    }
 
-      // Check whole word matching if enabled
-      if (config.wholeWord) {
-        const beforeChar = foundIndex > 0 ? documentText[foundIndex - 1] : ' ';
-        const afterChar = foundIndex + searchText.length < documentText.length 
-          ? documentText[foundIndex + searchText.length] 
-          : ' ';
+    this.cancelBackgroundMatching(document.uri);
+    this.failedMatching.delete(uri);
+    const matching: BackgroundMatching = {
+      version: document.version,
+      key,
+      job: this.workerPool.findAll(uri, document.version, document.getText(), patterns, config)
+    };
+    this.backgroundMatching.set(uri, matching);
 
-        if (this.isWordCharacter(beforeChar) || this.isWordCharacter(afterChar)) {
-          index = foundIndex + 1;
-          continue;
+    matching.job.matches
+      .then(matches => {
+        // Outdated or replaced jobs leave the update to their successor
+        if (!matches || this.backgroundMatching.get(uri) !== matching || document.version !== matching.version) {
+          return;
         }
+        this.backgroundMatching.delete(uri);
+        this.matchCache.store(document, patterns, config, matches);
+        vscode.window.visibleTextEditors
+          .filter(editor => editor.document === document)
+          .forEach(editor => this.updateEditor(editor));
+
+        const appendStart = this.backgroundAppends.get(uri);
+        if (appendStart !== undefined && this.fireAppendedMatches(document, appendStart)) {
+          this.backgroundAppends.delete(uri);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to match document in the background:', error);
+        if (this.backgroundMatching.get(uri) !== matching) {
+          return;
+        }
+        this.backgroundMatching.delete(uri);
+        this.backgroundAppends.delete(uri);
+        this.failedMatching.set(uri, matching);
+        vscode.window.visibleTextEditors
+          .filter(editor => editor.document === document)
+          .forEach(editor => this.updateEditor(editor));
+      });
+  }
+
+  /**
+   * Whether background matching failed for a document's current version and
+   * the given patterns
+   */
+  private hasFailedMatching(document: vscode.TextDocument, patterns: Pattern[], config: PatternConfig): boolean {
+    const failed = this.failedMatching.get(document.uri.toString());
+    return (
+      !!failed && failed.version === document.version && failed.key === this.getPatternsKey(patterns, config)
+    );
+  }
+
+  /**
+   * Cache keys of a list of patterns, identifying what a matching pass finds
+   */
+  private getPatternsKey(patterns: Pattern[], config: PatternConfig): string {
+    return patterns.map(pattern => MatchCache.getKey(pattern, config)).join('\n');
+  }
+
+  /**
+   * Cancel the background matching of a document, if any, leaving other
+   * requests for it on the worker pool running
+   */
+  private cancelBackgroundMatching(uri: vscode.Uri): void {
+    const running = this.backgroundMatching.get(uri.toString());
+    if (running) {
+      this.backgroundMatching.delete(uri.toString());
+      this.workerPool.cancel(running.job.id);
+    }
+  }
+
+  /**
+   * Debounce highlighting the visible lines of a scrolled editor
+   */
+  private debounceUpdateVisibleRanges(editor: vscode.TextEditor): void {
+    if (this.visibleRangesTimeout) {
+      clearTimeout(this.visibleRangesTimeout);
+    }
+
+    this.visibleRangesTimeout = setTimeout(() => this.updateEditor(editor), 100);
+  }
+
+  /**
+   * Number of characters in a document
+   */
+  private getDocumentLength(document: vscode.TextDocument): number {
+    return document.offsetAt(document.lineAt(document.lineCount - 1).range.end);
+  }
+
+  /**
+   * Get the configured size threshold in characters, or undefined for none
+   */
+  private getLargeFileThreshold(): number | undefined {
+    const megabytes = vscode.workspace
+      .getConfiguration('patternColorization')
+      .get<number>('largeFileThreshold', 10);
+    return megabytes > 0 ? megabytes * 1024 * 1024 : undefined;
+  }
+
+  /**
+   * Whether highlighting is paused for a document over the size threshold
+   */
+  public isPaused(document: vscode.TextDocument): boolean {
+    const threshold = this.getLargeFileThreshold();
+    return (
+      threshold !== undefined &&
+      !this.largeFileOverrides.has(document.uri.toString()) &&
+      this.getDocumentLength(document) > threshold
+    );
+  }
+
+  /**
+   * Highlight a document over the size threshold anyway
+   */
+  public highlightLargeFile(uri: vscode.Uri): void {
+    this.largeFileOverrides.add(uri.toString());
+    vscode.window.visibleTextEditors
+      .filter(editor => editor.document.uri.toString() === uri.toString())
+      .forEach(editor => this.updateEditor(editor));
+    this.updatePausedStatusBar();
+  }
+
+  /**
+   * Show the paused indicator while the active editor's document is over
+   * the size threshold
+   */
+  private updatePausedStatusBar(): void {
+    const document = vscode.window.activeTextEditor?.document;
+    if (!this.isEnabled || !document || !this.isPaused(document)) {
+      this.pausedStatusBarItem.hide();
+      return;
+    }
+
+    const toMegabytes = (size: number) => (size / 1024 / 1024).toFixed(1);
+    this.pausedStatusBarItem.text = '$(debug-pause) Highlighting paused: file too large';
+    this.pausedStatusBarItem.tooltip =
+      `${path.basename(document.uri.path)} is ${toMegabytes(this.getDocumentLength(document))} MB, ` +
+      `over the ${toMegabytes(this.getLargeFileThreshold()!)} MB set in patternColorization.largeFileThreshold. ` +
+      'Click to highlight it anyway.';
+    this.pausedStatusBarItem.command = {
+      title: 'Highlight Large File',
+      command: 'patternColorization.highlightLargeFile',
+      arguments: [document.uri]
+    };
+    this.pausedStatusBarItem.show();
+  }
+
+  /**
+   * Find the matches of each pattern in a document like findDocumentMatches,
+   * but match large documents without cached matches on the worker pool,
+   * sharing the background matching of the same version and patterns.
+   * Documents that fail to match on the pool are matched synchronously.
+   */
+  public async matchDocument(
+    document: vscode.TextDocument,
+    patterns: Pattern[],
+    config: PatternConfig
+  ): Promise<PatternMatch[][]> {
+    const uri = document.uri.toString();
+    const key = this.getPatternsKey(patterns, config);
+
+    for (;;) {
+      if (
+        document.uri.scheme === MATCHING_LINES_SCHEME ||
+        this.matchCache.isCached(document, patterns, config) ||
+        this.hasFailedMatching(document, patterns, config)
+      ) {
+        return this.findDocumentMatches(document, patterns, config);
       }
 
-      const startPos = document.positionAt(foundIndex);
-      const endPos = document.positionAt(foundIndex + searchText.length);
-      const range = new vscode.Range(startPos, endPos);
+      const version = document.version;
+      const running = this.backgroundMatching.get(uri);
+      const job =
+        running && running.version === version && running.key === key
+          ? running.job
+          : this.workerPool.findAll(uri, version, document.getText(), patterns, config);
+      let matches: PatternMatch[][] | undefined;
+      try {
+        matches = await job.matches;
+      } catch (error) {
+        console.error('Failed to match document on a worker:', error);
+        return this.findDocumentMatches(document, patterns, config);
+      }
+      if (matches && document.version === version) {
+        this.matchCache.store(document, patterns, config, matches);
+        return matches;
+      }
+      // Cancelled, or the document changed meanwhile: match its current text
+    }
+  }
 
-      ranges.push(range);
-      index = foundIndex + 1;
+  /**
+   * Get the configured overlap policy
+   */
+  private getOverlapPolicy(): OverlapPolicy {
+    return vscode.workspace
+      .getConfiguration('patternColorization')
+      .get<OverlapPolicy>('overlapPolicy', 'stack');
+  }
+
+  /**
+   * Get every enabled pattern matching at a position, in priority order.
+   * Matches hidden by the overlap policy are included and marked as such.
+   */
+  public getMatchesAt(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Array<{ pattern: Pattern; range: vscode.Range; shown: boolean }> {
+    const entry = this.documentMatches.get(document.uri.toString());
+    if (!this.isEnabled || !entry || entry.version !== document.version) {
+      return [];
     }
 
-    return ranges;
+    const offset = document.offsetAt(position);
+    const result: Array<{ pattern: Pattern; range: vscode.Range; shown: boolean }> = [];
+    entry.patterns.forEach((pattern, index) => {
+      const match = entry.matches[index].find(m => m.start <= offset && offset < m.end);
+      if (match) {
+        result.push({
+          pattern,
+          range: new vscode.Range(document.positionAt(match.start), document.positionAt(match.end)),
+          shown: entry.shown[index].some(m => m.start <= offset && offset < m.end)
+        });
+      }
+    });
+    return result;
   }
 
   /**
-   * Check if a character is a word character
+   * Get all matches of an enabled pattern in a document as last highlighted.
+   * Returns undefined until the document's current version has been fully
+   * matched, and while it is paused or highlighting is off.
    */
-  private isWordCharacter(char: string): boolean {
-    return /\w/.test(char);
+  public getPatternMatches(document: vscode.TextDocument, pattern: Pattern): PatternMatch[] | undefined {
+    const entry = this.documentMatches.get(document.uri.toString());
+    if (!this.isEnabled || !entry || entry.version !== document.version || entry.partial) {
+      return undefined;
+    }
+    const index = entry.patterns.findIndex(candidate => candidate.id === pattern.id);
+    return index === -1 ? undefined : entry.matches[index];
+  }
+
+  /**
+   * Find all ranges for a pattern in a document
+   */
+  public async findPatternRanges(
+    document: vscode.TextDocument,
+    pattern: Pattern,
+    config: PatternConfig = this.patternManager.getConfig()
+  ): Promise<vscode.Range[]> {
+    return (await this.findRanges(document, [pattern], config))[0];
+  }
+
+  /**
+   * Find all ranges of each pattern in a document, matching the patterns
+   * together in one pass
+   */
+  public async findRanges(
+    document: vscode.TextDocument,
+    patterns: Pattern[],
+    config: PatternConfig = this.patternManager.getConfig()
+  ): Promise<vscode.Range[][]> {
+    return (await this.matchDocument(document, patterns, config)).map(matches =>
+      matches.map(
+        (match) =>
+          new vscode.Range(
+            document.positionAt(match.start),
+            document.positionAt(match.end)
+          )
+      )
+    );
   }
 
   /**
@@ -289,7 +968,13 @@ export class DecorationManager {
     }
 
     this.updateTimeout = setTimeout(() => {
-      this.updateEditor(editor);
+      const appendStart = this.pendingAppends.get(editor.document.uri.toString());
+      if (appendStart !== undefined) {
+        this.pendingAppends.delete(editor.document.uri.toString());
+        this.updateAppended(editor, appendStart);
+      } else {
+        this.updateEditor(editor);
+      }
     }, 300);
   }
 
@@ -298,9 +983,7 @@ export class DecorationManager {
    */
   private clearEditorDecorations(editor: vscode.TextEditor): void {
     this.decorationTypes.forEach(decorationType => {
-      if (decorationType) {
-        editor.setDecorations(decorationType, []);
-      }
+      editor.setDecorations(decorationType, []);
     });
   }
 
@@ -317,12 +1000,8 @@ export class DecorationManager {
    * Dispose all decoration types
    */
   private disposeDecorationTypes(): void {
-    this.decorationTypes.forEach(decorationType => {
-      if (decorationType) {
-        decorationType.dispose();
-      }
-    });
-    this.decorationTypes = [];
+    this.decorationTypes.forEach(decorationType => decorationType.dispose());
+    this.decorationTypes.clear();
   }
 
   /**
@@ -336,23 +1015,31 @@ export class DecorationManager {
   /**
    * Get decoration statistics
    */
-  public getStats(): { totalPatterns: number; enabledPatterns: number; activeDecorations: number } {
+  public async getStats(): Promise<{
+    totalPatterns: number;
+    enabledPatterns: number;
+    activeDecorations: number;
+    activeSet: string;
+  }> {
     const patterns = this.patternManager.getPatterns();
     const enabledPatterns = this.patternManager.getEnabledPatterns();
     
-    let activeDecorations = 0;
-    vscode.window.visibleTextEditors.forEach(editor => {
-      enabledPatterns.forEach(pattern => {
-        const config = this.patternManager.getConfig();
-        const ranges = this.findPatternRanges(editor.document, pattern, config);
-        activeDecorations += ranges.length;
-      });
-    });
+    const config = this.patternManager.getConfig();
+    const counts = await Promise.all(
+      vscode.window.visibleTextEditors
+        .filter(editor => !this.isPaused(editor.document))
+        .map(async editor => {
+          const matches = await this.matchDocument(editor.document, enabledPatterns, config);
+          return matches.reduce((sum, patternMatches) => sum + patternMatches.length, 0);
+        })
+    );
+    const activeDecorations = counts.reduce((sum, count) => sum + count, 0);
 
     return {
       totalPatterns: patterns.length,
       enabledPatterns: enabledPatterns.length,
-      activeDecorations
+      activeDecorations,
+      activeSet: this.patternManager.getActiveSet().name
     };
   }
 
@@ -363,7 +1050,21 @@ export class DecorationManager {
     if (this.updateTimeout) {
       clearTimeout(this.updateTimeout);
     }
+    if (this.visibleRangesTimeout) {
+      clearTimeout(this.visibleRangesTimeout);
+    }
+    this.backgroundMatching.clear();
+    this.failedMatching.clear();
+    this.workerPool.dispose();
+    this.pausedStatusBarItem.dispose();
     this.clearAllDecorations();
     this.disposeDecorationTypes();
+    this.documentMatches.clear();
+    this.pendingAppends.clear();
+    this.backgroundAppends.clear();
+    this.matchCache.dispose();
+    this.log.dispose();
+    this._onDidAppendMatches.dispose();
+    this._onDidUpdateMatches.dispose();
   }
 }
\ No newline at end of file
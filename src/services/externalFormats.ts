@@ -0,0 +1,544 @@
+import { CustomColor, Pattern, PatternConfig } from "../models/pattern";
+import { ColorService } from "./colorService";
+import { PatternMatcher } from "./patternMatcher";
+
+/**
+ * Formats of other tools that patterns can be exported to
+ */
+export type ExternalFormat =
+  | "ripgrep"
+  | "vim"
+  | "less"
+  | "notepadPlusPlus";
+
+/**
+ * Result of an export to another tool's format
+ */
+export interface ExternalExport {
+  content: string;
+  /** Suggested file name suffix, including the extension */
+  fileSuffix: string;
+  /** Patterns the format cannot express, with the reason */
+  skipped: Array<{ pattern: Pattern; reason: string }>;
+}
+
+/**
+ * Configuration of another VS Code highlight extension that patterns can be
+ * imported from
+ */
+export interface ExternalImportSource {
+  /** Display name of the extension */
+  name: string;
+  /** Settings read from the configuration, passed to convert in this order */
+  settings: string[];
+  /** Convert the setting values into pattern data for importPatterns */
+  convert(values: any[]): any[];
+}
+
+/**
+ * Highlight extensions whose configuration can be imported
+ */
+export const EXTERNAL_IMPORT_SOURCES: ExternalImportSource[] = [
+  {
+    name: "TODO Highlight",
+    settings: [
+      "todohighlight.keywords",
+      "todohighlight.isCaseSensitive",
+      "todohighlight.keywordsPattern",
+    ],
+    convert: ([keywords, isCaseSensitive, keywordsPattern]) => {
+      const description = "Imported from TODO Highlight";
+      const caseSensitive = isCaseSensitive !== false;
+      const patterns: any[] = (Array.isArray(keywords) ? keywords : []).map(
+        (keyword: any) =>
+          typeof keyword === "string"
+            ? { text: keyword, caseSensitive, description }
+            : {
+                text: keyword?.text,
+                caseSensitive,
+                customColor: ExternalFormats.toCustomColor(
+                  keyword?.backgroundColor
+                ),
+                description,
+              }
+      );
+      if (typeof keywordsPattern === "string" && keywordsPattern.trim()) {
+        patterns.push({
+          text: keywordsPattern,
+          kind: "regex",
+          caseSensitive,
+          description,
+        });
+      }
+      return patterns;
+    },
+  },
+  {
+    name: "Highlight",
+    settings: ["highlight.regexes"],
+    convert: ([regexes]) =>
+      Object.entries(regexes && typeof regexes === "object" ? regexes : {}).map(
+        ([source, options]: [string, any]) => {
+          const decorations = Array.isArray(options)
+            ? options
+            : options?.decorations || [];
+          const flags = String(options?.regexFlags || "").replace(
+            /[^imsu]/g,
+            ""
+          );
+          return {
+            text: source,
+            kind: "regex",
+            flags,
+            caseSensitive: !flags.includes("i"),
+            customColor: ExternalFormats.toCustomColor(
+              decorations.find((d: any) => d?.backgroundColor)?.backgroundColor
+            ),
+            description: "Imported from Highlight",
+          };
+        }
+      ),
+  },
+  {
+    name: "Better Comments",
+    settings: ["better-comments.tags"],
+    convert: ([tags]) =>
+      (Array.isArray(tags) ? tags : []).map((tag: any) => ({
+        text: tag?.tag,
+        customColor:
+          ExternalFormats.toCustomColor(tag?.backgroundColor) ||
+          ExternalFormats.toCustomColor(tag?.color),
+        description: "Imported from Better Comments",
+      })),
+  },
+  {
+    name: "Todo Tree",
+    settings: [
+      "todo-tree.general.tags",
+      "todo-tree.highlights.customHighlight",
+      "todo-tree.regex.regexCaseSensitive",
+    ],
+    convert: ([tags, customHighlight, regexCaseSensitive]) =>
+      (Array.isArray(tags) ? tags : []).map((tag: any) => ({
+        text: tag,
+        caseSensitive: regexCaseSensitive !== false,
+        customColor: ExternalFormats.toCustomColor(
+          customHighlight?.[tag]?.background
+        ),
+        description: "Imported from Todo Tree",
+      })),
+  },
+];
+
+/**
+ * Converts patterns to and from the formats of other tools
+ */
+export class ExternalFormats {
+  /**
+   * Export patterns to another tool's format
+   */
+  public static export(
+    format: ExternalFormat,
+    patterns: Pattern[],
+    config: PatternConfig
+  ): ExternalExport {
+    switch (format) {
+      case "ripgrep":
+        return ExternalFormats.toRipgrep(patterns, config);
+      case "vim":
+        return ExternalFormats.toVim(patterns, config);
+      case "less":
+        return ExternalFormats.toLess(patterns, config);
+      case "notepadPlusPlus":
+        return ExternalFormats.toNotepadPlusPlus(patterns, config);
+    }
+  }
+
+  /**
+   * Shell script running ripgrep with one -e argument per pattern
+   */
+  private static toRipgrep(
+    patterns: Pattern[],
+    config: PatternConfig
+  ): ExternalExport {
+    const sources = patterns.map((pattern) => {
+      const effective = PatternMatcher.resolveConfig(pattern, config);
+      const flags = ExternalFormats.inlineFlags(pattern, effective);
+      const source = ExternalFormats.toRegexSource(pattern, effective);
+      return (flags ? `(?${flags})` : "") + source;
+    });
+
+    // Lookarounds and backreferences need the PCRE2 engine
+    const needsPcre2 = sources.some((source) =>
+      /\(\?<?[=!]|\\[1-9]/.test(source)
+    );
+
+    const lines = [
+      "#!/bin/sh",
+      `# ${ExternalFormats.header(patterns)} as ripgrep arguments`,
+      "# Usage: sh <this file> [rg options] [path...]",
+      "exec rg \\",
+      ...(needsPcre2 ? ["  --pcre2 \\"] : []),
+      ...sources.map(
+        (source) => `  -e ${ExternalFormats.shellQuote(source)} \\`
+      ),
+      '  "$@"',
+    ];
+
+    return {
+      content: lines.join("\n") + "\n",
+      fileSuffix: ".rg.sh",
+      skipped: [],
+    };
+  }
+
+  /**
+   * Shell script coloring the matches of all patterns in a single perl pass
+   * and paging the result with less. Matching the original text once keeps
+   * word boundaries working next to other highlights; where several patterns
+   * match at the same place, the first one wins.
+   */
+  private static toLess(
+    patterns: Pattern[],
+    config: PatternConfig
+  ): ExternalExport {
+    const skipped: ExternalExport["skipped"] = [];
+    const alternatives: string[] = [];
+    const colors: number[] = [];
+
+    patterns.forEach((pattern) => {
+      const effective = PatternMatcher.resolveConfig(pattern, config);
+      const source = ExternalFormats.toRegexSource(pattern, effective);
+      // Later alternatives would refer to the groups of earlier patterns
+      if (
+        alternatives.length > 0 &&
+        pattern.kind === "regex" &&
+        /\\[1-9]/.test(source)
+      ) {
+        skipped.push({
+          pattern,
+          reason:
+            "numbered backreferences only work in the first pattern of the combined expression",
+        });
+        return;
+      }
+
+      // The mark names the pattern that matched, to pick its color
+      const flags = ExternalFormats.inlineFlags(pattern, effective);
+      alternatives.push(`(?${flags}:${source})(*MARK:${colors.length})`);
+      colors.push(
+        ExternalFormats.toXterm256(ColorService.getColorDefinition(pattern).dark)
+      );
+    });
+
+    // Passing the expression in the environment avoids escaping delimiters
+    const regex = alternatives.join("|") || "(*FAIL)";
+    const program =
+      `BEGIN { $re = qr/$ENV{PATTERN_COLORIZATION_REGEX}/; @colors = (${colors.join(
+        ", "
+      )}) } ` + "s/$re/\\e[97;48;5;$colors[$REGMARK]m$&\\e[0m/g";
+
+    const lines = [
+      "#!/bin/sh",
+      `# ${ExternalFormats.header(patterns)} for perl and less`,
+      "# Usage: sh <this file> [file...]   (or pipe text into it)",
+      `PATTERN_COLORIZATION_REGEX=${ExternalFormats.shellQuote(regex)} \\`,
+      `  perl -pe ${ExternalFormats.shellQuote(program)} "$@" \\`,
+      "  | less -R",
+    ];
+
+    return {
+      content: lines.join("\n") + "\n",
+      fileSuffix: ".less.sh",
+      skipped,
+    };
+  }
+
+  /**
+   * Vim script defining a highlight group and a matchadd() call per pattern
+   */
+  private static toVim(
+    patterns: Pattern[],
+    config: PatternConfig
+  ): ExternalExport {
+    const skipped: ExternalExport["skipped"] = [];
+    const light: string[] = [];
+    const dark: string[] = [];
+    const matches: string[] = [];
+
+    patterns.forEach((pattern) => {
+      const effective = PatternMatcher.resolveConfig(pattern, config);
+      const vimPattern = ExternalFormats.toVimPattern(pattern, effective);
+      if (!vimPattern) {
+        skipped.push({
+          pattern,
+          reason: "uses regular expression features Vim does not support",
+        });
+        return;
+      }
+
+      const group = `PatternColorization${matches.length + 1}`;
+      const color = ColorService.getColorDefinition(pattern);
+      const lightTerm = ExternalFormats.toXterm256(color.light);
+      const darkTerm = ExternalFormats.toXterm256(color.dark);
+      light.push(
+        `  highlight ${group} guibg=${color.light} ctermbg=${lightTerm}`
+      );
+      dark.push(
+        `  highlight ${group} guibg=${color.dark} guifg=#FFFFFF ctermbg=${darkTerm} ctermfg=15`
+      );
+      matches.push(
+        `call matchadd('${group}', '${vimPattern.replace(/'/g, "''")}')`
+      );
+    });
+
+    const lines = [
+      `" ${ExternalFormats.header(patterns)} for Vim`,
+      '" Usage: :source <this file>',
+      "if &background ==# 'light'",
+      ...light,
+      "else",
+      ...dark,
+      "endif",
+      ...matches,
+    ];
+
+    return { content: lines.join("\n") + "\n", fileSuffix: ".vim", skipped };
+  }
+
+  /**
+   * Notepad++ user-defined language with one keyword group per color.
+   * Only literal patterns can be expressed, in at most 8 color groups, and
+   * the language has a single case setting: the global one.
+   */
+  private static toNotepadPlusPlus(
+    patterns: Pattern[],
+    config: PatternConfig
+  ): ExternalExport {
+    const skipped: ExternalExport["skipped"] = [];
+    const groups = new Map<string, { color: string; words: string[] }>();
+
+    for (const pattern of patterns) {
+      if (pattern.kind === "regex") {
+        skipped.push({
+          pattern,
+          reason: "regular expressions are not supported by Notepad++",
+        });
+        continue;
+      }
+      if (
+        PatternMatcher.resolveConfig(pattern, config).caseSensitive !==
+        config.caseSensitive
+      ) {
+        skipped.push({
+          pattern,
+          reason:
+            "Notepad++ applies one case setting to all keywords, and this pattern overrides the global one",
+        });
+        continue;
+      }
+      // Keyword lists quote phrases with double quotes and cannot escape them
+      if (pattern.text.includes('"')) {
+        skipped.push({
+          pattern,
+          reason: "Notepad++ keywords cannot contain double quotes",
+        });
+        continue;
+      }
+
+      const color = ColorService.getColorDefinition(pattern).light;
+      let group = groups.get(color);
+      if (!group) {
+        if (groups.size === 8) {
+          skipped.push({
+            pattern,
+            reason: "Notepad++ supports at most 8 keyword colors",
+          });
+          continue;
+        }
+        group = { color, words: [] };
+        groups.set(color, group);
+      }
+      group.words.push(
+        /\s/.test(pattern.text) ? `"${pattern.text}"` : pattern.text
+      );
+    }
+
+    const escapeXml = (value: string) =>
+      value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+    const entries = Array.from(groups.values());
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8" ?>',
+      `<!-- ${ExternalFormats.header(patterns)} for Notepad++ (Language > User Defined Language > Import) -->`,
+      "<NotepadPlus>",
+      '  <UserLang name="Pattern Colorization" ext="log" udlVersion="2.1">',
+      "    <Settings>",
+      `      <Global caseIgnored="${config.caseSensitive ? "no" : "yes"}" allowFoldOfComments="no" foldCompact="no" forcePureLC="0" decimalSeparator="0" />`,
+      "    </Settings>",
+      "    <KeywordLists>",
+      ...entries.map(
+        (group, index) =>
+          `      <Keywords name="Keywords${index + 1}">${escapeXml(
+            group.words.join(" ")
+          )}</Keywords>`
+      ),
+      "    </KeywordLists>",
+      "    <Styles>",
+      '      <WordsStyle name="DEFAULT" fgColor="000000" bgColor="FFFFFF" colorStyle="0" fontName="" fontStyle="0" nesting="0" />',
+      ...entries.map(
+        (group, index) =>
+          `      <WordsStyle name="KEYWORDS${index + 1}" fgColor="000000" bgColor="${group.color.slice(
+            1
+          )}" colorStyle="2" fontName="" fontStyle="0" nesting="0" />`
+      ),
+      "    </Styles>",
+      "  </UserLang>",
+      "</NotepadPlus>",
+    ];
+
+    return { content: lines.join("\n") + "\n", fileSuffix: ".udl.xml", skipped };
+  }
+
+  /**
+   * Convert a color from another extension's settings into a custom color.
+   * Accepts #RGB, #RRGGBB and #RRGGBBAA (the alpha channel is dropped).
+   */
+  public static toCustomColor(value: any): CustomColor | undefined {
+    if (typeof value !== "string") {
+      return undefined;
+    }
+    const hex = /^#([0-9a-f]{6})[0-9a-f]{2}$/i.test(value.trim())
+      ? value.trim().slice(0, 7)
+      : value.trim();
+    if (!ColorService.isValidHex(hex) || !hex.startsWith("#")) {
+      return undefined;
+    }
+    const normalized = ColorService.normalizeHex(hex);
+    return { light: normalized, dark: normalized };
+  }
+
+  /**
+   * JavaScript regular expression source for a pattern, understood by most
+   * regex engines (ripgrep, PCRE)
+   */
+  private static toRegexSource(
+    pattern: Pattern,
+    config: PatternConfig
+  ): string {
+    const source =
+      pattern.kind === "regex"
+        ? pattern.text
+        : pattern.text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return config.wholeWord ? `\\b(?:${source})\\b` : source;
+  }
+
+  /**
+   * Inline flags such as "is" equivalent to the pattern's matching options
+   */
+  private static inlineFlags(pattern: Pattern, config: PatternConfig): string {
+    const flags = (pattern.flags || "").replace(/[^ims]/g, "");
+    return !config.caseSensitive && !flags.includes("i") ? "i" + flags : flags;
+  }
+
+  /**
+   * Translate a pattern to a Vim regular expression, or null when it uses
+   * features that have no Vim equivalent
+   */
+  private static toVimPattern(
+    pattern: Pattern,
+    config: PatternConfig
+  ): string | null {
+    const caseSensitive =
+      config.caseSensitive && !(pattern.flags || "").includes("i");
+    const prefix = caseSensitive ? "\\C" : "\\c";
+
+    if (pattern.kind === "literal") {
+      const text = pattern.text.replace(/\\/g, "\\\\");
+      return config.wholeWord
+        ? `${prefix}\\V\\<${text}\\>`
+        : `${prefix}\\V${text}`;
+    }
+
+    // Lookarounds, named groups and unicode escapes are not translated
+    const source = pattern.text;
+    if (/\(\?<?[=!]|\(\?<|\\[upPk]/.test(source)) {
+      return null;
+    }
+
+    // Very magic mode (\v) is closest to JavaScript syntax
+    let result = "";
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+
+      if (char === "\\") {
+        const next = source[i + 1] ?? "";
+        if (next === "b") {
+          const atStart =
+            i === 0 || source[i - 1] === "(" || source[i - 1] === "|";
+          result += atStart ? "<" : ">";
+        } else {
+          result += "\\" + next;
+        }
+        i++;
+      } else if (char === "[") {
+        // Character classes are copied as they are
+        let end = i + 1;
+        while (end < source.length && source[end] !== "]") {
+          end += source[end] === "\\" ? 2 : 1;
+        }
+        result += source.slice(i, end + 1);
+        i = end;
+      } else if (source.startsWith("(?:", i)) {
+        result += "%(";
+        i += 2;
+      } else if ((char === "*" || char === "+") && source[i + 1] === "?") {
+        result += char === "*" ? "{-}" : "{-1,}";
+        i++;
+      } else if ("<>=@%&~".includes(char)) {
+        result += "\\" + char;
+      } else {
+        result += char;
+      }
+    }
+
+    return config.wholeWord
+      ? `${prefix}\\v<(${result})>`
+      : `${prefix}\\v${result}`;
+  }
+
+  /**
+   * Nearest color in the xterm 256-color cube for a #RRGGBB color
+   */
+  private static toXterm256(hex: string): number {
+    const value = parseInt(hex.slice(1, 7), 16);
+    const toLevel = (channel: number) =>
+      channel < 48 ? 0 : channel < 115 ? 1 : Math.floor((channel - 35) / 40);
+    return (
+      16 +
+      36 * toLevel((value >> 16) & 0xff) +
+      6 * toLevel((value >> 8) & 0xff) +
+      toLevel(value & 0xff)
+    );
+  }
+
+  /**
+   * Quote a value for POSIX shells
+   */
+  private static shellQuote(value: string): string {
+    return `'${value.replace(/'/g, "'\\''")}'`;
+  }
+
+  /**
+   * First line of generated files
+   */
+  private static header(patterns: Pattern[]): string {
+    return `Pattern Colorization: ${patterns.length} pattern${
+      patterns.length !== 1 ? "s" : ""
+    }`;
+  }
+}
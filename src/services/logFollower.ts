@@ -0,0 +1,219 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Pattern } from "../models/pattern";
+import { AppendedMatches, DecorationManager } from "./decorationManager";
+import { PatternMatcher } from "./patternMatcher";
+
+/**
+ * New matches per pattern in a followed file since following started
+ */
+interface FollowState {
+  uri: vscode.Uri;
+  counts: Map<string, { pattern: Pattern; count: number }>;
+}
+
+/**
+ * Number of patterns listed in the status bar text; the tooltip lists all
+ */
+const STATUS_BAR_PATTERNS = 3;
+
+/**
+ * Follows growing log files like `tail -f`: keeps their editors scrolled to
+ * the end as VS Code reloads appended content, and counts the new matches of
+ * each pattern. Only the appended text is rescanned for highlighting.
+ */
+export class LogFollower {
+  private followed = new Map<string, FollowState>();
+  private statusBarItem: vscode.StatusBarItem;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private decorationManager: DecorationManager) {
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      "patternColorization.follow",
+      vscode.StatusBarAlignment.Left,
+      99
+    );
+    this.statusBarItem.name = "Pattern Colorization: Follow";
+    this.statusBarItem.command = "patternColorization.stopFollowing";
+
+    this.disposables.push(
+      this.statusBarItem,
+      this.decorationManager.onDidAppendMatches((event) =>
+        this.handleAppend(event)
+      ),
+      vscode.window.onDidChangeActiveTextEditor(() => this.updateStatusBar()),
+      // VS Code only reloads files without unsaved changes
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (this.isFollowing(event.document.uri)) {
+          this.handleChange(event);
+          this.updateStatusBar();
+        }
+      }),
+      vscode.workspace.onDidSaveTextDocument((document) => {
+        if (this.isFollowing(document.uri)) {
+          this.updateStatusBar();
+        }
+      }),
+      vscode.workspace.onDidCloseTextDocument((document) =>
+        this.stopFollowing(document.uri)
+      )
+    );
+  }
+
+  /**
+   * Whether a file is being followed
+   */
+  public isFollowing(uri: vscode.Uri): boolean {
+    return this.followed.has(uri.toString());
+  }
+
+  /**
+   * Start following the file of an editor and scroll to its end
+   */
+  public follow(editor: vscode.TextEditor): void {
+    const uri = editor.document.uri;
+    if (!this.isFollowing(uri)) {
+      this.followed.set(uri.toString(), { uri, counts: new Map() });
+    }
+    this.scrollToEnd(editor);
+    this.updateStatusBar();
+  }
+
+  /**
+   * Stop following a file
+   */
+  public stopFollowing(uri: vscode.Uri): void {
+    if (this.followed.delete(uri.toString())) {
+      this.updateStatusBar();
+    }
+  }
+
+  /**
+   * Keep the editors of a followed file at the end as text is appended,
+   * unless the user scrolled away from it. Independent of highlighting, so
+   * it also works while highlighting is off or paused.
+   */
+  private handleChange(event: vscode.TextDocumentChangeEvent): void {
+    const document = event.document;
+    const change =
+      event.contentChanges.length === 1 ? event.contentChanges[0] : undefined;
+    const end = document.offsetAt(
+      document.lineAt(document.lineCount - 1).range.end
+    );
+    if (
+      !change ||
+      change.rangeLength !== 0 ||
+      change.rangeOffset + change.text.length !== end
+    ) {
+      return;
+    }
+
+    const previousLastLine = change.range.start.line;
+    vscode.window.visibleTextEditors
+      .filter((editor) => editor.document === document)
+      .forEach((editor) => {
+        const atEnd = editor.visibleRanges.some(
+          (range) => range.end.line >= previousLastLine - 1
+        );
+        if (atEnd) {
+          this.scrollToEnd(editor);
+        }
+      });
+  }
+
+  /**
+   * Count the new matches in a followed file
+   */
+  private handleAppend(event: AppendedMatches): void {
+    const state = this.followed.get(event.document.uri.toString());
+    if (!state) {
+      return;
+    }
+
+    event.counts.forEach(({ pattern, count }) => {
+      const current = state.counts.get(pattern.id);
+      state.counts.set(pattern.id, {
+        pattern,
+        count: (current?.count || 0) + count,
+      });
+    });
+
+    this.updateStatusBar();
+  }
+
+  /**
+   * Reveal the last line of an editor
+   */
+  private scrollToEnd(editor: vscode.TextEditor): void {
+    const lastLine = editor.document.lineCount - 1;
+    editor.revealRange(
+      new vscode.Range(lastLine, 0, lastLine, 0),
+      vscode.TextEditorRevealType.Default
+    );
+  }
+
+  /**
+   * Show the new match counts of the active editor's file while it is
+   * followed
+   */
+  private updateStatusBar(): void {
+    const document = vscode.window.activeTextEditor?.document;
+    const state = document && this.followed.get(document.uri.toString());
+    vscode.commands.executeCommand(
+      "setContext",
+      "patternColorization.following",
+      !!state
+    );
+
+    if (!state) {
+      this.statusBarItem.hide();
+      return;
+    }
+
+    const counts = Array.from(state.counts.values()).filter(
+      ({ count }) => count > 0
+    );
+    const total = counts.reduce((sum, { count }) => sum + count, 0);
+    const label = (pattern: Pattern) => {
+      const text = PatternMatcher.formatPattern(pattern);
+      return text.length > 20 ? `${text.slice(0, 19)}…` : text;
+    };
+
+    const listed = counts
+      .slice(0, STATUS_BAR_PATTERNS)
+      .map(({ pattern, count }) => `${label(pattern)} +${count}`);
+    if (counts.length > STATUS_BAR_PATTERNS) {
+      listed.push(`+${counts.length - STATUS_BAR_PATTERNS} more`);
+    }
+    this.statusBarItem.text = document.isDirty
+      ? "$(debug-pause) Follow paused: unsaved changes"
+      : `$(fold-down) ${listed.length > 0 ? listed.join(" · ") : "Following"}`;
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(
+      `**Following ${path.basename(state.uri.path)}**\n\n`
+    );
+    if (counts.length === 0) {
+      tooltip.appendMarkdown("No new matches yet\n\n");
+    } else {
+      tooltip.appendMarkdown(`${total} new matches:\n\n`);
+      counts.forEach(({ pattern, count }) => {
+        tooltip.appendMarkdown("- ");
+        tooltip.appendText(`${PatternMatcher.formatPattern(pattern)}: ${count}`);
+        tooltip.appendMarkdown("\n");
+      });
+      tooltip.appendMarkdown("\n");
+    }
+    tooltip.appendMarkdown("Click to stop following");
+    this.statusBarItem.tooltip = tooltip;
+    this.statusBarItem.show();
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    this.followed.clear();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
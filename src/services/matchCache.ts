@@ -0,0 +1,375 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Pattern, PatternConfig } from "../models/pattern";
+import { PatternMatch, PatternMatcher } from "./patternMatcher";
+import { MatchEngine } from "./matchEngine";
+
+/**
+ * Cached matches of one pattern, with the ranges of text changed since they
+ * were found
+ */
+interface CachedMatches {
+  /** Matches sorted by start offset */
+  matches: PatternMatch[];
+  /** Changed ranges in current document offsets, not yet rescanned */
+  dirty: Array<{ start: number; end: number }>;
+}
+
+/**
+ * Cached matches of a document version, keyed by pattern and matching options
+ */
+interface CachedDocument {
+  version: number;
+  patterns: Map<string, CachedMatches>;
+}
+
+/**
+ * Caches the matches of each pattern per document and keeps them up to date
+ * from document change events, so an edit only rescans the lines it touched.
+ * Hits and misses are logged to the given "Pattern Colorization Debug"
+ * output channel at the debug log level.
+ */
+export class MatchCache {
+  private documents = new Map<string, CachedDocument>();
+
+  constructor(
+    private engine: MatchEngine,
+    private log: vscode.LogOutputChannel
+  ) {}
+
+  /**
+   * Get the matches of each pattern in a document, in the order given.
+   * Patterns that are not cached are matched together in one pass.
+   */
+  public getMatches(
+    document: vscode.TextDocument,
+    patterns: Pattern[],
+    config: PatternConfig
+  ): PatternMatch[][] {
+    const uri = document.uri.toString();
+    let entry = this.documents.get(uri);
+    if (!entry || entry.version !== document.version) {
+      if (entry) {
+        this.log.debug(
+          `${this.getName(document)}: version ${entry.version} is outdated, rescanning version ${document.version}`
+        );
+      }
+      entry = { version: document.version, patterns: new Map() };
+      this.documents.set(uri, entry);
+    }
+
+    const stats = { hits: 0, partial: 0, misses: 0, lines: 0 };
+    const missed: number[] = [];
+    const result = patterns.map((pattern, index) => {
+      const key = MatchCache.getKey(pattern, config);
+      const cached = entry!.patterns.get(key);
+
+      if (cached && cached.dirty.length === 0) {
+        stats.hits++;
+        return cached.matches;
+      }
+
+      if (cached && MatchCache.isLineLocal(pattern)) {
+        stats.partial++;
+        stats.lines += this.rescanDirtyLines(document, cached, pattern, config);
+        return cached.matches;
+      }
+
+      stats.misses++;
+      this.log.trace(
+        `${this.getName(document)}: miss for ${PatternMatcher.formatPattern(
+          pattern
+        )} (${cached ? "may match across lines" : "not cached"})`
+      );
+      missed.push(index);
+      return [];
+    });
+
+    if (missed.length > 0) {
+      const found = this.engine.findAll(
+        document.getText(),
+        missed.map((index) => patterns[index]),
+        config
+      );
+      missed.forEach((index, i) => {
+        entry!.patterns.set(MatchCache.getKey(patterns[index], config), {
+          matches: found[i],
+          dirty: [],
+        });
+        result[index] = found[i];
+      });
+    }
+
+    if (patterns.length > 0) {
+      this.log.debug(
+        `${this.getName(document)} v${document.version}: ${stats.hits} hits, ${
+          stats.partial
+        } partial (${stats.lines} lines rescanned), ${stats.misses} misses`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Update the cached matches of a document from a change event: matches
+   * in or next to the changed text are dropped and later ones are moved.
+   * The changed lines are rescanned on the next lookup.
+   */
+  public applyChanges(event: vscode.TextDocumentChangeEvent): void {
+    const uri = event.document.uri.toString();
+    const entry = this.documents.get(uri);
+    if (!entry || event.contentChanges.length === 0) {
+      return;
+    }
+
+    if (entry.version !== event.document.version - 1) {
+      this.log.debug(
+        `${this.getName(event.document)}: missed changes after version ${
+          entry.version
+        }, dropping cached matches`
+      );
+      this.documents.delete(uri);
+      return;
+    }
+
+    // Changes apply one after another, each in the offsets left by the last
+    event.contentChanges.forEach((change) => {
+      const changeEnd = change.rangeOffset + change.rangeLength;
+      const delta = change.text.length - change.rangeLength;
+      entry.patterns.forEach((cached) => {
+        const matches: PatternMatch[] = [];
+        cached.matches.forEach((match) => {
+          if (match.end <= change.rangeOffset) {
+            matches.push(match);
+          } else if (match.start >= changeEnd) {
+            matches.push({
+              ...match,
+              start: match.start + delta,
+              end: match.end + delta,
+            });
+          }
+        });
+        cached.matches = matches;
+
+        cached.dirty = cached.dirty.map((range) => ({
+          start: range.start >= changeEnd ? range.start + delta : range.start,
+          end:
+            range.end >= change.rangeOffset
+              ? Math.max(range.end, changeEnd) + delta
+              : range.end,
+        }));
+        cached.dirty.push({
+          start: change.rangeOffset,
+          end: change.rangeOffset + change.text.length,
+        });
+      });
+    });
+    entry.version = event.document.version;
+  }
+
+  /**
+   * Whether every pattern has cached matches for the document's current
+   * version, so a lookup at most rescans changed lines
+   */
+  public isCached(
+    document: vscode.TextDocument,
+    patterns: Pattern[],
+    config: PatternConfig
+  ): boolean {
+    const entry = this.documents.get(document.uri.toString());
+    return (
+      !!entry &&
+      entry.version === document.version &&
+      patterns.every((pattern) => {
+        const cached = entry.patterns.get(MatchCache.getKey(pattern, config));
+        return (
+          !!cached &&
+          (cached.dirty.length === 0 || MatchCache.isLineLocal(pattern))
+        );
+      })
+    );
+  }
+
+  /**
+   * Store matches found elsewhere for the document's current version, in
+   * the order of the patterns
+   */
+  public store(
+    document: vscode.TextDocument,
+    patterns: Pattern[],
+    config: PatternConfig,
+    matches: PatternMatch[][]
+  ): void {
+    const uri = document.uri.toString();
+    let entry = this.documents.get(uri);
+    if (!entry || entry.version !== document.version) {
+      entry = { version: document.version, patterns: new Map() };
+      this.documents.set(uri, entry);
+    }
+    patterns.forEach((pattern, index) => {
+      entry!.patterns.set(MatchCache.getKey(pattern, config), {
+        matches: matches[index],
+        dirty: [],
+      });
+    });
+    this.log.debug(
+      `${this.getName(document)} v${document.version}: stored the matches of ${patterns.length} patterns`
+    );
+  }
+
+  /**
+   * Forget the cached matches of a document
+   */
+  public delete(uri: vscode.Uri): void {
+    this.documents.delete(uri.toString());
+  }
+
+  /**
+   * Forget cached matches of patterns that no longer exist or whose
+   * matching options changed
+   */
+  public prune(patterns: Pattern[], config: PatternConfig): void {
+    const keys = new Set(
+      patterns.map((pattern) => MatchCache.getKey(pattern, config))
+    );
+    this.documents.forEach((entry) => {
+      Array.from(entry.patterns.keys())
+        .filter((key) => !keys.has(key))
+        .forEach((key) => entry.patterns.delete(key));
+    });
+  }
+
+  /**
+   * Rescan the lines touched by the changed ranges and merge the matches
+   * found there into the cached ones. Returns the number of lines rescanned.
+   */
+  private rescanDirtyLines(
+    document: vscode.TextDocument,
+    cached: CachedMatches,
+    pattern: Pattern,
+    config: PatternConfig
+  ): number {
+    // Expand the changed ranges to whole lines and merge the ones that meet
+    const regions = cached.dirty
+      .map((range) => ({
+        startLine: document.positionAt(range.start).line,
+        endLine: document.positionAt(range.end).line,
+      }))
+      .sort((a, b) => a.startLine - b.startLine)
+      .reduce<Array<{ startLine: number; endLine: number }>>(
+        (merged, region) => {
+          const last = merged[merged.length - 1];
+          if (last && region.startLine <= last.endLine + 1) {
+            last.endLine = Math.max(last.endLine, region.endLine);
+          } else {
+            merged.push({ ...region });
+          }
+          return merged;
+        },
+        []
+      );
+
+    let lines = 0;
+    regions.forEach(({ startLine, endLine }) => {
+      const range = new vscode.Range(
+        startLine,
+        0,
+        endLine,
+        document.lineAt(endLine).range.end.character
+      );
+      const start = document.offsetAt(range.start);
+      const end = document.offsetAt(range.end);
+      const found = this.engine
+        .findAll(document.getText(range), [pattern], config)[0]
+        .map((match) => ({
+          ...match,
+          start: match.start + start,
+          end: match.end + start,
+        }));
+
+      cached.matches = [
+        ...cached.matches.filter((match) => match.end <= start),
+        ...found,
+        ...cached.matches.filter((match) => match.start >= end),
+      ];
+      lines += endLine - startLine + 1;
+    });
+
+    cached.dirty = [];
+    return lines;
+  }
+
+  /**
+   * Cache key of a pattern: everything that affects its matches
+   */
+  public static getKey(pattern: Pattern, config: PatternConfig): string {
+    const resolved = PatternMatcher.resolveConfig(pattern, config);
+    return [
+      pattern.kind,
+      pattern.flags || "",
+      resolved.caseSensitive ? "c" : "",
+      resolved.wholeWord ? "w" : "",
+      pattern.text,
+    ].join("|");
+  }
+
+  /**
+   * Whether every match of a pattern lies within one line, so changed lines
+   * can be rescanned on their own. Regular expressions are taken to match
+   * across lines when they use the `s` flag, a negated character class or an
+   * escape that can match a line break (`\n`, `\r`, `\s`, `\W`, `\D`,
+   * `\p`, `\P`, `\x`, `\u`, `\c`). `^` and `$` anchor to the document
+   * unless the `m` flag is set, so they need a full scan too.
+   */
+  public static isLineLocal(pattern: Pattern): boolean {
+    if (pattern.kind !== "regex") {
+      return !/[\r\n]/.test(pattern.text);
+    }
+
+    const flags = pattern.flags || "";
+    if (flags.includes("s")) {
+      return false;
+    }
+
+    const source = pattern.text;
+    let inClass = false;
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+      if (char === "\n" || char === "\r") {
+        return false;
+      }
+      if (char === "\\") {
+        if ("nrsWDpPxuc".includes(source[i + 1])) {
+          return false;
+        }
+        i++;
+      } else if (char === "[" && !inClass) {
+        if (source[i + 1] === "^") {
+          return false;
+        }
+        inClass = true;
+      } else if (char === "]") {
+        inClass = false;
+      } else if (!inClass && (char === "^" || char === "$")) {
+        if (!flags.includes("m")) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Short document name for log messages
+   */
+  private getName(document: vscode.TextDocument): string {
+    return path.basename(document.uri.path);
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    this.documents.clear();
+  }
+}
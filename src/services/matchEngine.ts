@@ -0,0 +1,114 @@
+import { Pattern, PatternConfig } from "../models/pattern";
+import { AhoCorasick, foldCase } from "./ahoCorasick";
+import { PatternMatch, PatternMatcher } from "./patternMatcher";
+
+/**
+ * Maximum number of compiled keyword sets kept for reuse
+ */
+const AUTOMATON_CACHE_SIZE = 20;
+
+/**
+ * Finds the matches of many patterns at once. Literal patterns are compiled
+ * into one Aho–Corasick automaton per case sensitivity and found in a single
+ * pass; regular expressions are matched one by one. Free of the VS Code API
+ * so it can run anywhere a text snapshot is available.
+ */
+export class MatchEngine {
+  private readonly matcher = new PatternMatcher();
+  private automata = new Map<string, AhoCorasick>();
+
+  /**
+   * Find all matches of each pattern in the given text, in the order given.
+   * Matches of each pattern are sorted by start offset.
+   */
+  public findAll(
+    text: string,
+    patterns: Pattern[],
+    config: PatternConfig
+  ): PatternMatch[][] {
+    const results: PatternMatch[][] = patterns.map(() => []);
+    const caseSensitive: number[] = [];
+    const caseInsensitive: number[] = [];
+
+    patterns.forEach((pattern, index) => {
+      if (pattern.kind === "regex") {
+        results[index] = this.matcher.findMatches(text, pattern, config);
+      } else if (pattern.text) {
+        const resolved = PatternMatcher.resolveConfig(pattern, config);
+        (resolved.caseSensitive ? caseSensitive : caseInsensitive).push(index);
+      }
+    });
+
+    this.findLiterals(text, patterns, caseSensitive, false, config, results);
+    this.findLiterals(text, patterns, caseInsensitive, true, config, results);
+    return results;
+  }
+
+  /**
+   * Find the literal patterns at the given indexes in one pass, adding their
+   * matches to the results
+   */
+  private findLiterals(
+    text: string,
+    patterns: Pattern[],
+    indexes: number[],
+    fold: boolean,
+    config: PatternConfig,
+    results: PatternMatch[][]
+  ): void {
+    if (indexes.length === 0) {
+      return;
+    }
+
+    // Patterns with the same text share a keyword
+    const keywords: string[] = [];
+    const owners: Array<Array<{ index: number; wholeWord: boolean }>> = [];
+    const keywordIds = new Map<string, number>();
+    indexes.forEach((index) => {
+      const pattern = patterns[index];
+      const keyword = fold ? foldCase(pattern.text) : pattern.text;
+      let id = keywordIds.get(keyword);
+      if (id === undefined) {
+        id = keywords.length;
+        keywords.push(keyword);
+        owners.push([]);
+        keywordIds.set(keyword, id);
+      }
+      owners[id].push({
+        index,
+        wholeWord: PatternMatcher.resolveConfig(pattern, config).wholeWord,
+      });
+    });
+
+    this.getAutomaton(keywords, fold).search(
+      text,
+      (keyword, end) => {
+        const start = end - keywords[keyword].length;
+        const keywordOwners = owners[keyword];
+        for (let i = 0; i < keywordOwners.length; i++) {
+          const { index, wholeWord } = keywordOwners[i];
+          if (!wholeWord || PatternMatcher.isWholeWord(text, start, end)) {
+            results[index].push({ start, end });
+          }
+        }
+      },
+      fold
+    );
+  }
+
+  /**
+   * Get (and cache) the automaton for a set of keywords
+   */
+  private getAutomaton(keywords: string[], fold: boolean): AhoCorasick {
+    const key = `${fold ? "i" : ""}\u0000${keywords.join("\u0000")}`;
+    let automaton = this.automata.get(key);
+    if (!automaton) {
+      automaton = new AhoCorasick(keywords);
+      if (this.automata.size >= AUTOMATON_CACHE_SIZE) {
+        this.automata.clear();
+      }
+      this.automata.set(key, automaton);
+    }
+    return automaton;
+  }
+}
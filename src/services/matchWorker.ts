@@ -0,0 +1,53 @@
+/**
+ * Worker thread entry point of MatchWorkerPool: matches the patterns in a
+ * text snapshot with its own MatchEngine and returns the offsets of each
+ * pattern's matches as start and end pairs.
+ */
+import { parentPort } from "worker_threads";
+import { Pattern, PatternConfig } from "../models/pattern";
+import { MatchEngine } from "./matchEngine";
+
+/**
+ * A matching request sent by the pool
+ */
+export interface MatchRequest {
+  id: number;
+  text: string;
+  patterns: Pattern[];
+  config: PatternConfig;
+}
+
+/**
+ * The reply to a request: the offsets of each pattern's matches, or the
+ * error that stopped matching
+ */
+export interface MatchResponse {
+  id: number;
+  offsets?: Int32Array[];
+  error?: string;
+}
+
+const engine = new MatchEngine();
+
+parentPort?.on("message", (request: MatchRequest) => {
+  try {
+    const offsets = engine
+      .findAll(request.text, request.patterns, request.config)
+      .map((matches) => {
+        const pairs = new Int32Array(matches.length * 2);
+        matches.forEach((match, index) => {
+          pairs[index * 2] = match.start;
+          pairs[index * 2 + 1] = match.end;
+        });
+        return pairs;
+      });
+    const response: MatchResponse = { id: request.id, offsets };
+    parentPort!.postMessage(
+      response,
+      offsets.map((pairs) => pairs.buffer)
+    );
+  } catch (error) {
+    const response: MatchResponse = { id: request.id, error: String(error) };
+    parentPort!.postMessage(response);
+  }
+});
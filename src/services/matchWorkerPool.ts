@@ -0,0 +1,272 @@
+import * as os from "os";
+import * as path from "path";
+import { Worker } from "worker_threads";
+import { Pattern, PatternConfig } from "../models/pattern";
+import { WORKER_LIMITS } from "../constants/colors";
+import { MatchEngine } from "./matchEngine";
+import { PatternMatch } from "./patternMatcher";
+import { MatchRequest, MatchResponse } from "./matchWorker";
+
+/**
+ * A request waiting for or running on a worker
+ */
+interface MatchTask {
+  /** Document the text was taken from, and its version at the time */
+  document: string;
+  version: number;
+  request: MatchRequest;
+  resolve: (matches: PatternMatch[][] | undefined) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A request submitted to the pool: its id, to cancel it, and its result.
+ * The result is undefined when the request was cancelled.
+ */
+export interface MatchJob {
+  id: number;
+  matches: Promise<PatternMatch[][] | undefined>;
+}
+
+/**
+ * A worker thread and the task it is running, if any
+ */
+interface PoolWorker {
+  worker: Worker;
+  task?: MatchTask;
+  /** Timer failing the task once it runs past WORKER_LIMITS.TASK_TIMEOUT */
+  deadline?: NodeJS.Timeout;
+}
+
+/**
+ * Matches text snapshots on a pool of worker threads, so matching large
+ * documents does not block the extension host. Each document has at most one
+ * version being matched: a request for a newer version cancels the older
+ * ones, terminating their worker if they already started. Requests running
+ * past a deadline fail and their worker is terminated. Small texts, and
+ * all texts once workers turn out to be unavailable, are matched
+ * synchronously with the given engine.
+ */
+export class MatchWorkerPool {
+  private workers: PoolWorker[] = [];
+  private queue: MatchTask[] = [];
+  private nextId = 1;
+  private available = true;
+
+  constructor(
+    private engine: MatchEngine,
+    private size = Math.max(
+      1,
+      Math.min(os.cpus().length - 1, WORKER_LIMITS.MAX_WORKERS)
+    )
+  ) {}
+
+  /**
+   * Start finding all matches of each pattern in a snapshot of a document's
+   * text, like MatchEngine.findAll. The job's result is undefined when it is
+   * cancelled by a request for a newer version of the document or by
+   * `cancel`, and it is rejected when matching takes too long.
+   */
+  public findAll(
+    document: string,
+    version: number,
+    text: string,
+    patterns: Pattern[],
+    config: PatternConfig
+  ): MatchJob {
+    const id = this.nextId++;
+    if (text.length < WORKER_LIMITS.MIN_SIZE || !this.available) {
+      return {
+        id,
+        matches: (async () => this.engine.findAll(text, patterns, config))(),
+      };
+    }
+
+    this.cancelWhere(
+      (task) => task.document === document && task.version < version
+    );
+    return {
+      id,
+      matches: new Promise((resolve, reject) => {
+        this.queue.push({
+          document,
+          version,
+          request: { id, text, patterns, config },
+          resolve,
+          reject,
+        });
+        this.dispatch();
+      }),
+    };
+  }
+
+  /**
+   * Cancel a request, leaving other requests for its document running
+   */
+  public cancel(id: number): void {
+    this.cancelWhere((task) => task.request.id === id);
+  }
+
+  /**
+   * Resolve the matching tasks to undefined, dropping them from the queue
+   * or terminating the workers running them
+   */
+  private cancelWhere(predicate: (task: MatchTask) => boolean): void {
+    this.queue = this.queue.filter((task) => {
+      if (predicate(task)) {
+        task.resolve(undefined);
+        return false;
+      }
+      return true;
+    });
+
+    this.workers
+      .filter((entry) => entry.task && predicate(entry.task))
+      .forEach((entry) => {
+        entry.task!.resolve(undefined);
+        this.removeWorker(entry);
+      });
+    this.dispatch();
+  }
+
+  /**
+   * Start queued tasks on idle workers, creating workers up to the pool size
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let entry = this.workers.find((candidate) => !candidate.task);
+      if (!entry && this.workers.length < this.size) {
+        entry = this.createWorker();
+      }
+      if (!entry) {
+        return;
+      }
+
+      const task = this.queue.shift()!;
+      entry.task = task;
+      entry.deadline = setTimeout(
+        () => this.handleTimeout(entry!),
+        WORKER_LIMITS.TASK_TIMEOUT
+      );
+      entry.worker.postMessage(task.request);
+    }
+  }
+
+  /**
+   * Start a worker thread, or fall back to synchronous matching if that fails
+   */
+  private createWorker(): PoolWorker | undefined {
+    let worker: Worker;
+    try {
+      worker = new Worker(path.join(__dirname, "matchWorker.js"));
+    } catch (error) {
+      this.handleFailure(error);
+      return undefined;
+    }
+    // Idle workers must not keep the extension host alive
+    worker.unref();
+
+    const entry: PoolWorker = { worker };
+    worker.on("message", (response: MatchResponse) =>
+      this.handleResponse(entry, response)
+    );
+    worker.on("error", (error) => this.handleFailure(error, entry));
+    worker.on("exit", (code) => {
+      if (this.workers.includes(entry)) {
+        this.handleFailure(`worker exited with code ${code}`, entry);
+      }
+    });
+    this.workers.push(entry);
+    return entry;
+  }
+
+  /**
+   * Complete a worker's task with the offsets it returned
+   */
+  private handleResponse(entry: PoolWorker, response: MatchResponse): void {
+    const task = entry.task;
+    if (!task || task.request.id !== response.id) {
+      return;
+    }
+    entry.task = undefined;
+    clearTimeout(entry.deadline);
+
+    if (response.error !== undefined) {
+      task.reject(new Error(response.error));
+    } else {
+      task.resolve(
+        response.offsets!.map((pairs) => {
+          const matches: PatternMatch[] = [];
+          for (let i = 0; i < pairs.length; i += 2) {
+            matches.push({ start: pairs[i], end: pairs[i + 1] });
+          }
+          return matches;
+        })
+      );
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Fail a task that ran past its deadline, such as a regular expression
+   * backtracking on the text, and terminate its worker
+   */
+  private handleTimeout(entry: PoolWorker): void {
+    const task = entry.task;
+    if (!task) {
+      return;
+    }
+    entry.task = undefined;
+    this.removeWorker(entry);
+    task.reject(
+      new Error(
+        `matching took longer than ${WORKER_LIMITS.TASK_TIMEOUT / 1000} seconds`
+      )
+    );
+    this.dispatch();
+  }
+
+  /**
+   * Stop using workers after one failed to start or crashed, and match its
+   * task and the queued ones synchronously
+   */
+  private handleFailure(error: unknown, entry?: PoolWorker): void {
+    console.error("Pattern matching worker failed:", error);
+    this.available = false;
+
+    const tasks = [...(entry?.task ? [entry.task] : []), ...this.queue];
+    this.queue = [];
+    if (entry) {
+      entry.task = undefined;
+      this.removeWorker(entry);
+    }
+
+    tasks.forEach((task) => {
+      try {
+        const { text, patterns, config } = task.request;
+        task.resolve(this.engine.findAll(text, patterns, config));
+      } catch (failure) {
+        task.reject(
+          failure instanceof Error ? failure : new Error(String(failure))
+        );
+      }
+    });
+  }
+
+  /**
+   * Remove a worker from the pool and terminate it
+   */
+  private removeWorker(entry: PoolWorker): void {
+    this.workers = this.workers.filter((candidate) => candidate !== entry);
+    clearTimeout(entry.deadline);
+    entry.worker.terminate().catch(() => undefined);
+  }
+
+  /**
+   * Cancel all requests and terminate the workers
+   */
+  public dispose(): void {
+    this.cancelWhere(() => true);
+    this.workers.forEach((entry) => this.removeWorker(entry));
+  }
+}
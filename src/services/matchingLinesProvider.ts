@@ -0,0 +1,294 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { PatternManager } from "./patternManager";
+import { DecorationManager } from "./decorationManager";
+
+/**
+ * URI scheme of the read-only documents listing the matching lines of a file
+ */
+export const MATCHING_LINES_SCHEME = "pattern-matches";
+
+/**
+ * Prefix of a listed line: the source line number, then ":" for matching
+ * lines or "-" for context lines, as in `grep -n -C` output
+ */
+const LINE_PREFIX = /^ *(\d+)[:-] /;
+
+/**
+ * Line separating non-adjacent blocks of lines
+ */
+const BLOCK_SEPARATOR = "--";
+
+/**
+ * Provides read-only documents that show only the lines of a file matching
+ * the enabled patterns, with optional context lines and the original line
+ * numbers. The line numbers link back to the source file.
+ */
+export class MatchingLinesProvider
+  implements vscode.TextDocumentContentProvider, vscode.DocumentLinkProvider
+{
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChange.event;
+  private refreshTimeouts = new Map<string, NodeJS.Timeout>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private patternManager: PatternManager,
+    private decorationManager: DecorationManager
+  ) {
+    this.disposables.push(
+      this.patternManager.onDidChangePatterns(() => {
+        this.getOpenDocuments().forEach((document) =>
+          this._onDidChange.fire(document.uri)
+        );
+      }),
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        const source = event.document.uri.toString();
+        this.getOpenDocuments()
+          .filter(
+            (document) =>
+              MatchingLinesProvider.parseUri(document.uri)?.source.toString() ===
+              source
+          )
+          .forEach((document) => this.debounceRefresh(document.uri));
+      })
+    );
+  }
+
+  /**
+   * Get the URI of the matching lines document for a file
+   */
+  public static getUri(source: vscode.Uri, contextLines: number): vscode.Uri {
+    const query = new URLSearchParams({
+      source: source.toString(),
+      context: String(contextLines),
+    });
+    return vscode.Uri.from({
+      scheme: MATCHING_LINES_SCHEME,
+      path: `${source.path} (matching lines)`,
+      query: query.toString(),
+    });
+  }
+
+  /**
+   * Get the source file and number of context lines of a matching lines
+   * document
+   */
+  public static parseUri(
+    uri: vscode.Uri
+  ): { source: vscode.Uri; contextLines: number } | undefined {
+    if (uri.scheme !== MATCHING_LINES_SCHEME) {
+      return undefined;
+    }
+    const query = new URLSearchParams(uri.query);
+    const source = query.get("source");
+    if (!source) {
+      return undefined;
+    }
+    return {
+      source: vscode.Uri.parse(source),
+      contextLines: Math.max(0, parseInt(query.get("context") || "0", 10) || 0),
+    };
+  }
+
+  /**
+   * Get the source location of a line in a matching lines document
+   */
+  public static getSourceLocation(
+    document: vscode.TextDocument,
+    line: number
+  ): { uri: vscode.Uri; line: number } | undefined {
+    const parsed = MatchingLinesProvider.parseUri(document.uri);
+    const prefix = LINE_PREFIX.exec(document.lineAt(line).text);
+    if (!parsed || !prefix) {
+      return undefined;
+    }
+    return { uri: parsed.source, line: parseInt(prefix[1], 10) - 1 };
+  }
+
+  /**
+   * Get the text of a matching lines document without the line number
+   * prefixes and separators, so patterns match as they do in the source,
+   * with a function mapping offsets in that text to document offsets
+   */
+  public static getSourceText(document: vscode.TextDocument): {
+    text: string;
+    toDocumentOffset: (offset: number) => number;
+  } {
+    const contents: string[] = [];
+    const textStarts: number[] = [];
+    const documentStarts: number[] = [];
+    let textOffset = 0;
+    for (let line = 0; line < document.lineCount; line++) {
+      const lineText = document.lineAt(line).text;
+      const prefix = LINE_PREFIX.exec(lineText);
+      const prefixLength = prefix ? prefix[0].length : lineText.length;
+      const content = lineText.slice(prefixLength);
+      contents.push(content);
+      textStarts.push(textOffset);
+      documentStarts.push(
+        document.offsetAt(new vscode.Position(line, prefixLength))
+      );
+      textOffset += content.length + 1;
+    }
+
+    const toDocumentOffset = (offset: number): number => {
+      let low = 0;
+      let high = textStarts.length - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (textStarts[mid] <= offset) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return documentStarts[low] + (offset - textStarts[low]);
+    };
+
+    return { text: contents.join("\n"), toDocumentOffset };
+  }
+
+  /**
+   * Provide the matching lines of the source file
+   */
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const parsed = MatchingLinesProvider.parseUri(uri);
+    if (!parsed) {
+      return "";
+    }
+
+    if (!this.patternManager.getConfig().enabled) {
+      return `Pattern highlighting is turned off; turn it on to list the lines of ${path.basename(
+        parsed.source.path
+      )} matching the enabled patterns`;
+    }
+
+    const document = await vscode.workspace.openTextDocument(parsed.source);
+    const matchingLines = await this.findMatchingLines(document);
+    if (matchingLines.size === 0) {
+      return `No lines of ${path.basename(
+        parsed.source.path
+      )} match the enabled patterns`;
+    }
+
+    // Mark the lines to list, including the context around each match
+    const listed = new Uint8Array(document.lineCount);
+    matchingLines.forEach((line) => {
+      const end = Math.min(document.lineCount - 1, line + parsed.contextLines);
+      for (let i = Math.max(0, line - parsed.contextLines); i <= end; i++) {
+        listed[i] = 1;
+      }
+    });
+
+    const width = String(document.lineCount).length;
+    const lines: string[] = [];
+    let previous = -1;
+    for (let line = 0; line < document.lineCount; line++) {
+      if (!listed[line]) {
+        continue;
+      }
+      if (previous >= 0 && line > previous + 1) {
+        lines.push(BLOCK_SEPARATOR);
+      }
+      const marker = matchingLines.has(line) ? ":" : "-";
+      lines.push(
+        `${String(line + 1).padStart(width)}${marker} ${
+          document.lineAt(line).text
+        }`
+      );
+      previous = line;
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * Link each line number to its line in the source file
+   */
+  provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+    const parsed = MatchingLinesProvider.parseUri(document.uri);
+    if (!parsed) {
+      return [];
+    }
+
+    const links: vscode.DocumentLink[] = [];
+    for (let line = 0; line < document.lineCount; line++) {
+      const prefix = LINE_PREFIX.exec(document.lineAt(line).text);
+      if (!prefix) {
+        continue;
+      }
+      const start = prefix[0].indexOf(prefix[1]);
+      const link = new vscode.DocumentLink(
+        new vscode.Range(line, start, line, start + prefix[1].length),
+        parsed.source.with({ fragment: `L${prefix[1]}` })
+      );
+      link.tooltip = `Go to line ${prefix[1]}`;
+      links.push(link);
+    }
+    return links;
+  }
+
+  /**
+   * Get the lines matched by an enabled pattern, using the decoration
+   * manager's cached matches or its worker pool. A match spanning several
+   * lines marks all of them.
+   */
+  private async findMatchingLines(
+    document: vscode.TextDocument
+  ): Promise<Set<number>> {
+    const matches = await this.decorationManager.matchDocument(
+      document,
+      this.patternManager.getPatternsByPriority(),
+      this.patternManager.getConfig()
+    );
+    const lines = new Set<number>();
+    matches.forEach((patternMatches) => {
+      patternMatches.forEach((match) => {
+        const start = document.positionAt(match.start).line;
+        const end = document.positionAt(Math.max(match.start, match.end - 1))
+          .line;
+        for (let line = start; line <= end; line++) {
+          lines.add(line);
+        }
+      });
+    });
+    return lines;
+  }
+
+  /**
+   * Get the open matching lines documents
+   */
+  private getOpenDocuments(): vscode.TextDocument[] {
+    return vscode.workspace.textDocuments.filter(
+      (document) => document.uri.scheme === MATCHING_LINES_SCHEME
+    );
+  }
+
+  /**
+   * Regenerate a matching lines document once its source stops changing
+   */
+  private debounceRefresh(uri: vscode.Uri): void {
+    const key = uri.toString();
+    const timeout = this.refreshTimeouts.get(key);
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+    this.refreshTimeouts.set(
+      key,
+      setTimeout(() => {
+        this.refreshTimeouts.delete(key);
+        this._onDidChange.fire(uri);
+      }, 500)
+    );
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    this.refreshTimeouts.forEach((timeout) => clearTimeout(timeout));
+    this.refreshTimeouts.clear();
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this._onDidChange.dispose();
+  }
+}
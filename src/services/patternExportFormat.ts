@@ -0,0 +1,130 @@
+import { PatternExport } from "../models/pattern";
+import {
+  DEFAULT_PATTERN_SET,
+  EXPORT_FORMAT_VERSION,
+} from "../constants/colors";
+
+/**
+ * Export data upgraded to the current format, with notes about anything that
+ * could not be carried over
+ */
+export interface MigratedExport {
+  data: PatternExport;
+  warnings: string[];
+}
+
+/**
+ * Migrations upgrading export data from version N to version N + 1
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // Version 1: a bare array of patterns, or the { sets } / { patterns }
+  // objects written to the shared patterns file
+  1: (data) => {
+    const patterns: any[] = Array.isArray(data)
+      ? data
+      : Array.isArray(data.patterns)
+      ? data.patterns
+      : [];
+    const sets = Array.isArray(data.sets)
+      ? data.sets
+      : [
+          {
+            name: DEFAULT_PATTERN_SET.name,
+            patterns: patterns.filter((p) => p?.scope !== "user"),
+          },
+        ];
+
+    return {
+      version: 2,
+      sets,
+      userPatterns: patterns.filter((p) => p?.scope === "user"),
+    };
+  },
+};
+
+/**
+ * Reads export files of any version into the current envelope format
+ */
+export class PatternExportFormat {
+  /**
+   * Upgrade parsed export file content to the current format.
+   * Throws when the content is not a pattern export.
+   */
+  public static migrate(content: any): MigratedExport {
+    const warnings: string[] = [];
+    let version = PatternExportFormat.detectVersion(content);
+    let data = content;
+
+    if (version > EXPORT_FORMAT_VERSION) {
+      warnings.push(
+        `The file uses a newer export format (version ${version}); content this version does not understand is ignored`
+      );
+    }
+
+    while (version < EXPORT_FORMAT_VERSION) {
+      const migration = MIGRATIONS[version];
+      if (!migration) {
+        throw new Error(`Unsupported export format version ${version}`);
+      }
+      data = migration(data);
+      version = data.version;
+    }
+
+    return { data: PatternExportFormat.normalize(data), warnings };
+  }
+
+  /**
+   * Determine the format version of export file content
+   */
+  private static detectVersion(content: any): number {
+    if (Array.isArray(content)) {
+      return 1;
+    }
+    if (!content || typeof content !== "object") {
+      throw new Error("Expected a pattern export object or an array of patterns");
+    }
+    if (content.version === undefined) {
+      if (Array.isArray(content.sets) || Array.isArray(content.patterns)) {
+        return 1;
+      }
+      throw new Error('Missing "version" in pattern export');
+    }
+    if (!Number.isInteger(content.version) || content.version < 1) {
+      throw new Error(`Invalid export format version: ${content.version}`);
+    }
+    return content.version;
+  }
+
+  /**
+   * Keep the known fields of the current format, dropping malformed values
+   */
+  private static normalize(data: any): PatternExport {
+    const config: PatternExport["config"] = {};
+    for (const key of ["caseSensitive", "wholeWord", "enabled"] as const) {
+      if (typeof data.config?.[key] === "boolean") {
+        config[key] = data.config[key];
+      }
+    }
+
+    return {
+      version: EXPORT_FORMAT_VERSION,
+      metadata:
+        data.metadata && typeof data.metadata === "object"
+          ? data.metadata
+          : undefined,
+      config: Object.keys(config).length > 0 ? config : undefined,
+      activeSet:
+        typeof data.activeSet === "string" ? data.activeSet : undefined,
+      sets: Array.isArray(data.sets)
+        ? data.sets.filter(
+            (set: any) =>
+              set &&
+              typeof set.name === "string" &&
+              Array.isArray(set.patterns)
+          )
+        : [],
+      userPatterns: Array.isArray(data.userPatterns) ? data.userPatterns : [],
+      userGroups: Array.isArray(data.userGroups) ? data.userGroups : undefined,
+    };
+  }
+}
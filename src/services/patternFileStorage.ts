@@ -0,0 +1,144 @@
+import * as vscode from "vscode";
+
+/**
+ * Content of the shared patterns file: either the pattern sets, or a plain
+ * list of patterns for the active set (older files)
+ */
+export interface PatternFileContent {
+  sets?: any[];
+  patterns?: any[];
+}
+
+/**
+ * Reads and writes patterns to a JSON file inside the workspace so they can be
+ * committed and shared with a team
+ */
+export class PatternFileStorage implements vscode.Disposable {
+  private watcher: vscode.FileSystemWatcher | undefined;
+  private lastWrittenContent: string | undefined;
+  private reloadTimeout: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly folder: vscode.WorkspaceFolder,
+    private readonly relativePath: string
+  ) {}
+
+  /**
+   * Location of the patterns file
+   */
+  public get uri(): vscode.Uri {
+    return vscode.Uri.joinPath(this.folder.uri, this.relativePath);
+  }
+
+  /**
+   * Read the file content.
+   * Returns undefined when the file does not exist; throws on invalid content.
+   */
+  public async read(): Promise<PatternFileContent | undefined> {
+    let content: string;
+    try {
+      const bytes = await vscode.workspace.fs.readFile(this.uri);
+      content = Buffer.from(bytes).toString("utf8");
+    } catch (error) {
+      if (
+        error instanceof vscode.FileSystemError &&
+        error.code === "FileNotFound"
+      ) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    if (!content.trim()) {
+      return { patterns: [] };
+    }
+
+    const data = JSON.parse(content);
+    if (Array.isArray(data)) {
+      return { patterns: data };
+    }
+    if (Array.isArray(data?.sets)) {
+      return { sets: data.sets };
+    }
+    if (Array.isArray(data?.patterns)) {
+      return { patterns: data.patterns };
+    }
+    throw new Error('Expected an object with a "sets" or "patterns" array');
+  }
+
+  /**
+   * Write patterns atomically: the content goes to a temporary file first,
+   * which then replaces the target in a single rename
+   */
+  public async write(data: PatternFileContent): Promise<void> {
+    const content = JSON.stringify(data, null, 2) + "\n";
+    if (content === this.lastWrittenContent) {
+      return;
+    }
+
+    const target = this.uri;
+    const tempUri = vscode.Uri.joinPath(
+      target,
+      "..",
+      `.${this.relativePath.split("/").pop()}.${Date.now()}.tmp`
+    );
+
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(target, ".."));
+    await vscode.workspace.fs.writeFile(tempUri, Buffer.from(content, "utf8"));
+    try {
+      this.lastWrittenContent = content;
+      await vscode.workspace.fs.rename(tempUri, target, { overwrite: true });
+    } catch (error) {
+      this.lastWrittenContent = undefined;
+      await vscode.workspace.fs.delete(tempUri).then(undefined, () => {});
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the file currently holds exactly what this instance last wrote
+   */
+  public async isUnchangedSinceWrite(): Promise<boolean> {
+    if (this.lastWrittenContent === undefined) {
+      return false;
+    }
+    try {
+      const bytes = await vscode.workspace.fs.readFile(this.uri);
+      return Buffer.from(bytes).toString("utf8") === this.lastWrittenContent;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Watch the file for changes made outside this extension (e.g. git pull)
+   */
+  public watch(onDidChange: () => void): void {
+    this.watcher?.dispose();
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(this.folder, this.relativePath)
+    );
+
+    // Debounce bursts of events from checkouts and atomic renames
+    const schedule = () => {
+      if (this.reloadTimeout) {
+        clearTimeout(this.reloadTimeout);
+      }
+      this.reloadTimeout = setTimeout(onDidChange, 200);
+    };
+
+    this.watcher.onDidChange(schedule);
+    this.watcher.onDidCreate(schedule);
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    if (this.reloadTimeout) {
+      clearTimeout(this.reloadTimeout);
+    }
+    this.watcher?.dispose();
+    this.watcher = undefined;
+  }
+}
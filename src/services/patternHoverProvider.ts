@@ -0,0 +1,67 @@
+import * as vscode from "vscode";
+import { DecorationManager } from "./decorationManager";
+import { PatternMatcher } from "./patternMatcher";
+import { ColorService } from "./colorService";
+import { PATTERN_STYLES } from "../constants/colors";
+
+/**
+ * Shows every pattern matching at the hovered position, including matches
+ * hidden by the overlap policy
+ */
+export class PatternHoverProvider implements vscode.HoverProvider {
+  constructor(private decorationManager: DecorationManager) {}
+
+  /**
+   * Provide a hover listing the patterns matching at a position
+   */
+  provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    _token: vscode.CancellationToken
+  ): vscode.Hover | undefined {
+    const matches = this.decorationManager.getMatchesAt(document, position);
+    if (matches.length === 0) {
+      return undefined;
+    }
+
+    const hover = new vscode.MarkdownString();
+    hover.supportThemeIcons = true;
+    hover.appendMarkdown(
+      matches.length === 1
+        ? "**Pattern Match**\n\n"
+        : `**${matches.length} Pattern Matches** *(highest priority first)*\n\n`
+    );
+
+    matches.forEach(({ pattern, range, shown }) => {
+      const style = PATTERN_STYLES.find(
+        (s) => s.id === (pattern.style || "background")
+      )!;
+      hover.appendMarkdown("- ");
+      hover.appendText(`"${PatternMatcher.formatPattern(pattern)}"`);
+      hover.appendMarkdown(
+        ` — ${ColorService.getColorDefinition(pattern).name}, ${style.name}` +
+          (pattern.kind === "regex" ? " *(regular expression)*" : "") +
+          (shown ? "" : " *(hidden by overlap policy)*") +
+          "\n"
+      );
+      hover.appendMarkdown("  - Match: ");
+      hover.appendText(document.getText(range));
+      hover.appendMarkdown("\n");
+      if (pattern.description) {
+        hover.appendMarkdown("  - ");
+        hover.appendText(pattern.description);
+        hover.appendMarkdown("\n");
+      }
+    });
+
+    hover.appendMarkdown(
+      "\n*Change priority by dragging patterns in the Patterns view*"
+    );
+
+    // Cover the part of the line where all listed patterns match
+    const range = matches
+      .map((match) => match.range)
+      .reduce((a, b) => a.intersection(b) || a);
+    return new vscode.Hover(hover, range);
+  }
+}
@@ -1,17 +1,46 @@
 import * as vscode from "vscode";
+import * as path from "path";
 import {
   Pattern,
   PatternConfig,
   PatternChangeEvent,
   PatternEventType,
+  PatternKind,
+  PatternScope,
+  PatternSet,
+  PatternGroup,
+  CustomColor,
+  ImportCandidate,
+  ImportMode,
+  ImportPlan,
+  PatternExport,
+  HistoryEntry,
+  GroupSettings,
 } from "../models/pattern";
+import { PatternMatcher } from "./patternMatcher";
+import { ColorService } from "./colorService";
+import { PatternFileStorage } from "./patternFileStorage";
 import {
   COLOR_PALETTE,
-  MAX_PATTERNS,
+  DEFAULT_MAX_PATTERNS,
   DEFAULT_CONFIG,
+  DEFAULT_PATTERN_SET,
+  DEFAULT_STORAGE_FILE,
+  EXPORT_FORMAT_VERSION,
+  HISTORY_LIMIT,
+  PATTERN_STYLES,
+  RULER_LANES,
   STORAGE_KEYS,
 } from "../constants/colors";
 
+/**
+ * User patterns and groups kept in globalState, which every window shares
+ */
+interface StoredUserState {
+  patterns: Pattern[];
+  groups: PatternGroup[];
+}
+
 /**
  * Manages pattern storage, CRUD operations, and state persistence
  */
@@ -19,6 +48,14 @@ export class PatternManager {
   private patterns: Pattern[] = [];
   private config: PatternConfig = { ...DEFAULT_CONFIG };
   private lastColorIndex: number = 0;
+  private sets: PatternSet[] = [];
+  private activeSetId: string = DEFAULT_PATTERN_SET.id;
+  private userGroups: PatternGroup[] = [];
+  /** User patterns and groups as last read from or written to globalState */
+  private storedUserState: StoredUserState = { patterns: [], groups: [] };
+  private fileStorage: PatternFileStorage | undefined;
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
   private readonly _onDidChangePatterns =
     new vscode.EventEmitter<PatternChangeEvent>();
 
@@ -29,6 +66,38 @@ export class PatternManager {
 
   constructor(private context: vscode.ExtensionContext) {
     this.loadState();
+    this.configureFileStorage();
+    this.updateHistoryContext();
+
+    // User patterns follow the user across machines with Settings Sync
+    this.context.globalState.setKeysForSync([
+      STORAGE_KEYS.USER_PATTERNS,
+      STORAGE_KEYS.USER_GROUPS,
+    ]);
+
+    // Other windows may have changed the user patterns meanwhile
+    vscode.window.onDidChangeWindowState(
+      (state) => {
+        if (state.focused) {
+          this.reloadUserState();
+        }
+      },
+      null,
+      this.context.subscriptions
+    );
+
+    vscode.workspace.onDidChangeConfiguration(
+      (event) => {
+        if (
+          event.affectsConfiguration("patternColorization.storage") ||
+          event.affectsConfiguration("patternColorization.storageFile")
+        ) {
+          this.configureFileStorage();
+        }
+      },
+      null,
+      this.context.subscriptions
+    );
   }
 
   /**
@@ -39,10 +108,42 @@ export class PatternManager {
   }
 
   /**
-   * Get enabled patterns only
+   * Get patterns of a single scope
+   */
+  public getPatternsByScope(scope: PatternScope): Pattern[] {
+    return this.patterns.filter((p) => p.scope === scope);
+  }
+
+  /**
+   * Get enabled patterns only. User patterns overridden by a workspace
+   * pattern with the same text are left out.
    */
   public getEnabledPatterns(): Pattern[] {
-    return this.patterns.filter((p) => p.enabled);
+    return this.patterns.filter((p) => p.enabled && !this.isShadowed(p));
+  }
+
+  /**
+   * Get enabled patterns in priority order: workspace patterns before user
+   * patterns, each in the order shown in the Patterns view
+   */
+  public getPatternsByPriority(): Pattern[] {
+    const enabled = this.getEnabledPatterns();
+    return [
+      ...enabled.filter((p) => p.scope === "workspace"),
+      ...enabled.filter((p) => p.scope === "user"),
+    ];
+  }
+
+  /**
+   * Whether a user pattern is overridden by a workspace pattern with the same
+   * text. Workspace patterns always take precedence, even when disabled, so a
+   * workspace can switch off a personal pattern.
+   */
+  public isShadowed(pattern: Pattern): boolean {
+    return (
+      pattern.scope === "user" &&
+      !!this.findDuplicate(pattern.text, pattern.kind, undefined, "workspace")
+    );
   }
 
   /**
@@ -52,14 +153,57 @@ export class PatternManager {
     return { ...this.config };
   }
 
+  /**
+   * Get the configured maximum number of patterns (0 means no limit)
+   */
+  public getMaxPatterns(): number {
+    const max = vscode.workspace
+      .getConfiguration("patternColorization")
+      .get<number>("maxPatterns", DEFAULT_MAX_PATTERNS);
+    return Math.max(0, Math.floor(max));
+  }
+
+  /**
+   * Whether the configured maximum number of patterns has been reached
+   */
+  public isAtPatternLimit(): boolean {
+    const max = this.getMaxPatterns();
+    return max > 0 && this.patterns.length >= max;
+  }
+
+  /**
+   * Find an existing pattern with the same kind and text
+   */
+  public findDuplicate(
+    text: string,
+    kind: PatternKind = "literal",
+    excludeId?: string,
+    scope: PatternScope = "workspace"
+  ): Pattern | undefined {
+    const normalized = text.trim();
+    return this.patterns.find(
+      (p) =>
+        p.id !== excludeId &&
+        p.scope === scope &&
+        p.kind === kind &&
+        (kind === "regex"
+          ? p.text === normalized
+          : p.text.toLowerCase() === normalized.toLowerCase())
+    );
+  }
+
   /**
    * Add a new pattern
    */
   public async addPattern(
     text: string,
-    description?: string
+    description?: string,
+    options: { kind?: PatternKind; flags?: string; scope?: PatternScope } = {}
   ): Promise<Pattern | null> {
-    if (this.patterns.length >= MAX_PATTERNS) {
+    const kind = options.kind || "literal";
+    const scope = options.scope || "workspace";
+
+    if (this.isAtPatternLimit()) {
       return null;
     }
 
@@ -68,25 +212,37 @@ export class PatternManager {
       return null;
     }
 
-    // Check for duplicate patterns
-    const existingPattern = this.patterns.find(
-      (p) => p.text.toLowerCase() === text.toLowerCase()
-    );
+    if (kind === "regex") {
+      const error = PatternMatcher.validateRegex(text.trim(), options.flags);
+      if (error) {
+        vscode.window.showErrorMessage(error);
+        return null;
+      }
+    }
 
-    if (existingPattern) {
+    // Check for duplicate patterns
+    if (this.findDuplicate(text, kind, undefined, scope)) {
       return null;
     }
 
     const pattern: Pattern = {
       id: this.generateId(),
       text: text.trim(),
+      kind,
+      flags: kind === "regex" ? options.flags || undefined : undefined,
+      scope,
       colorIndex: this.getNextColorIndex(),
       enabled: true,
       createdAt: Date.now(),
       description: description?.trim(),
     };
 
+    const before = this.snapshotPatterns();
     this.patterns.push(pattern);
+    this.recordHistory(
+      `Add "${PatternMatcher.formatPattern(pattern)}"`,
+      before
+    );
     await this.saveState();
 
     this._onDidChangePatterns.fire({
@@ -106,8 +262,13 @@ export class PatternManager {
       return false;
     }
 
+    const before = this.snapshotPatterns();
     const pattern = this.patterns[index];
     this.patterns.splice(index, 1);
+    this.recordHistory(
+      `Remove "${PatternMatcher.formatPattern(pattern)}"`,
+      before
+    );
     await this.saveState();
 
     this._onDidChangePatterns.fire({
@@ -118,6 +279,68 @@ export class PatternManager {
     return true;
   }
 
+  /**
+   * Remove several patterns as one undoable step.
+   * Returns the number of patterns removed.
+   */
+  public async removePatterns(ids: string[]): Promise<number> {
+    const removed = this.patterns.filter((p) => ids.includes(p.id));
+    if (removed.length === 0) {
+      return 0;
+    }
+
+    const before = this.snapshotPatterns();
+    this.patterns = this.patterns.filter((p) => !removed.includes(p));
+    this.recordHistory(`Remove ${removed.length} patterns`, before);
+    await this.saveState();
+
+    this._onDidChangePatterns.fire({
+      type: PatternEventType.REMOVED,
+      patterns: removed,
+    });
+
+    return removed.length;
+  }
+
+  /**
+   * Apply the same update to several patterns as one undoable step.
+   * Returns the number of patterns updated.
+   */
+  public async updatePatterns(
+    ids: string[],
+    updates: Partial<Pattern>
+  ): Promise<number> {
+    const patterns = this.patterns.filter((p) => ids.includes(p.id));
+    if (patterns.length === 0) {
+      return 0;
+    }
+
+    const before = this.snapshotPatterns();
+    patterns.forEach((pattern) => Object.assign(pattern, updates));
+    this.recordHistory(
+      `${
+        "enabled" in updates
+          ? updates.enabled
+            ? "Enable"
+            : "Disable"
+          : "colorIndex" in updates || "customColor" in updates
+          ? "Change color of"
+          : "style" in updates
+          ? "Change style of"
+          : "Edit"
+      } ${patterns.length} pattern${patterns.length !== 1 ? "s" : ""}`,
+      before
+    );
+    await this.saveState();
+
+    this._onDidChangePatterns.fire({
+      type: PatternEventType.UPDATED,
+      patterns,
+    });
+
+    return patterns.length;
+  }
+
   /**
    * Update a pattern
    */
@@ -130,7 +353,18 @@ export class PatternManager {
       return false;
     }
 
+    const before = this.snapshotPatterns();
     Object.assign(pattern, updates);
+    this.recordHistory(
+      `${
+        "colorIndex" in updates || "customColor" in updates
+          ? "Change color of"
+          : "style" in updates
+          ? "Change style of"
+          : "Edit"
+      } "${PatternMatcher.formatPattern(pattern)}"`,
+      before
+    );
     await this.saveState();
 
     this._onDidChangePatterns.fire({
@@ -142,19 +376,33 @@ export class PatternManager {
   }
 
   /**
-   * Toggle pattern enabled state
+   * Move a pattern to another scope.
+   * Returns false when the target scope already has a pattern with the same text.
    */
-  public async togglePattern(id: string): Promise<boolean> {
+  public async movePattern(id: string, scope: PatternScope): Promise<boolean> {
     const pattern = this.patterns.find((p) => p.id === id);
     if (!pattern) {
       return false;
     }
 
-    pattern.enabled = !pattern.enabled;
+    if (pattern.scope === scope) {
+      return true;
+    }
+
+    if (this.findDuplicate(pattern.text, pattern.kind, id, scope)) {
+      return false;
+    }
+
+    const before = this.snapshotPatterns();
+    pattern.scope = scope;
+    this.recordHistory(
+      `Move "${PatternMatcher.formatPattern(pattern)}" to ${scope} patterns`,
+      before
+    );
     await this.saveState();
 
     this._onDidChangePatterns.fire({
-      type: PatternEventType.TOGGLED,
+      type: PatternEventType.UPDATED,
       pattern,
     });
 
@@ -162,173 +410,1415 @@ export class PatternManager {
   }
 
   /**
-   * Clear all patterns
+   * Move patterns in the priority order, before another pattern or to the end
+   * of a scope, and into a group (or out of any group). Patterns moved into
+   * the other scope change scope, unless that scope already has a pattern with
+   * the same text.
+   * Returns the number of patterns moved.
    */
-  public async clearPatterns(): Promise<void> {
-    if (this.patterns.length === 0) {
-      return;
+  public async reorderPatterns(
+    ids: string[],
+    scope: PatternScope,
+    beforeId?: string,
+    group?: string
+  ): Promise<number> {
+    if (beforeId && ids.includes(beforeId)) {
+      return 0;
     }
 
-    this.patterns = [];
-    this.lastColorIndex = 0;
+    const moving = this.patterns.filter(
+      (p) =>
+        ids.includes(p.id) &&
+        (p.scope === scope ||
+          !this.findDuplicate(p.text, p.kind, p.id, scope))
+    );
+    if (moving.length === 0) {
+      return 0;
+    }
+
+    const before = this.snapshotPatterns();
+    this.patterns = this.patterns.filter((p) => !moving.includes(p));
+    moving.forEach((p) => {
+      p.scope = scope;
+      p.group = group;
+    });
+
+    let index = beforeId
+      ? this.patterns.findIndex((p) => p.id === beforeId)
+      : -1;
+    if (index === -1) {
+      index = this.patterns.length;
+    }
+    this.patterns.splice(index, 0, ...moving);
+    if (group) {
+      this.applyGroupColorScheme(scope, group);
+    }
+
+    this.recordHistory(
+      moving.length === 1
+        ? `Move "${PatternMatcher.formatPattern(moving[0])}"`
+        : `Move ${moving.length} patterns`,
+      before
+    );
     await this.saveState();
 
     this._onDidChangePatterns.fire({
-      type: PatternEventType.CLEARED,
+      type: PatternEventType.UPDATED,
+      patterns: this.patterns,
     });
+
+    return moving.length;
   }
 
   /**
-   * Update configuration
+   * Get the groups of a scope in the order their first pattern is listed
    */
-  public async updateConfig(config: Partial<PatternConfig>): Promise<void> {
-    Object.assign(this.config, config);
+  public getGroups(scope: PatternScope): PatternGroup[] {
+    const names = new Set(
+      this.getPatternsByScope(scope)
+        .map((p) => p.group)
+        .filter((group): group is string => !!group)
+    );
+    return Array.from(names).map(
+      (name) =>
+        this.getGroupSettings(scope).find((group) => group.name === name) || {
+          name,
+        }
+    );
+  }
+
+  /**
+   * Put patterns into a group, or take them out of their group when no name
+   * is given. Returns the number of patterns moved.
+   */
+  public async movePatternsToGroup(
+    ids: string[],
+    group: string | undefined
+  ): Promise<number> {
+    const name = group?.trim() || undefined;
+    const patterns = this.patterns.filter(
+      (p) => ids.includes(p.id) && p.group !== name
+    );
+    if (patterns.length === 0) {
+      return 0;
+    }
+
+    const before = this.snapshotPatterns();
+    patterns.forEach((pattern) => (pattern.group = name));
+    if (name) {
+      new Set(patterns.map((p) => p.scope)).forEach((scope) =>
+        this.applyGroupColorScheme(scope, name)
+      );
+    }
+    this.recordHistory(
+      name
+        ? `Move ${patterns.length} pattern${
+            patterns.length !== 1 ? "s" : ""
+          } to group "${name}"`
+        : `Remove ${patterns.length} pattern${
+            patterns.length !== 1 ? "s" : ""
+          } from their group`,
+      before
+    );
     await this.saveState();
 
-    // Trigger refresh of all patterns
     this._onDidChangePatterns.fire({
       type: PatternEventType.UPDATED,
-      patterns: this.patterns,
+      patterns,
     });
+
+    return patterns.length;
   }
 
   /**
-   * Get color definition for a pattern
+   * Set the color scheme of a group and recolor its patterns. Without a
+   * scheme, the patterns keep their current colors.
    */
-  public getColorForPattern(pattern: Pattern) {
-    return COLOR_PALETTE[pattern.colorIndex] || COLOR_PALETTE[0];
+  public async setGroupColorScheme(
+    scope: PatternScope,
+    name: string,
+    colorScheme: number[] | undefined
+  ): Promise<void> {
+    const before = this.snapshotPatterns();
+    const groupsBefore = this.snapshotGroups();
+    const settings = this.getGroupSettings(scope);
+    const group = settings.find((g) => g.name === name);
+    if (group) {
+      group.colorScheme = colorScheme;
+    } else {
+      settings.push({ name, colorScheme });
+    }
+
+    this.applyGroupColorScheme(scope, name);
+    this.recordHistory(
+      `Change color scheme of group "${name}"`,
+      before,
+      groupsBefore
+    );
+    await this.saveState();
+
+    this._onDidChangePatterns.fire({
+      type: PatternEventType.UPDATED,
+      patterns: this.patterns,
+    });
   }
 
   /**
-   * Import patterns from JSON
+   * Add settings of imported groups that do not exist yet
    */
-  public async importPatterns(patternsData: any[]): Promise<void> {
-    try {
-      const validPatterns: Pattern[] = [];
-
-      for (const data of patternsData) {
-        if (data.text && typeof data.text === "string") {
-          const pattern: Pattern = {
-            id: data.id || this.generateId(),
-            text: data.text.trim(),
-            colorIndex: Math.min(
-              Math.max(data.colorIndex || 0, 0),
-              COLOR_PALETTE.length - 1
-            ),
-            enabled: data.enabled !== false,
-            createdAt: data.createdAt || Date.now(),
-            description: data.description,
-          };
-          validPatterns.push(pattern);
-        }
+  private importGroups(scope: PatternScope, groupsData: any): void {
+    const settings = this.getGroupSettings(scope);
+    for (const group of this.parseGroups(groupsData)) {
+      if (!settings.some((g) => g.name === group.name)) {
+        settings.push(group);
       }
+    }
+  }
+
+  /**
+   * Stored group settings of a scope; workspace groups belong to the active set
+   */
+  private getGroupSettings(scope: PatternScope): PatternGroup[] {
+    if (scope === "user") {
+      return this.userGroups;
+    }
+    const set = this.findSet(this.activeSetId)!;
+    return (set.groups = set.groups || []);
+  }
+
+  /**
+   * Assign the colors of a group's scheme in turn to its patterns
+   */
+  private applyGroupColorScheme(scope: PatternScope, name: string): void {
+    const scheme = this.getGroupSettings(scope).find(
+      (group) => group.name === name
+    )?.colorScheme;
+    if (!scheme || scheme.length === 0) {
+      return;
+    }
+
+    this.getPatternsByScope(scope)
+      .filter((p) => p.group === name)
+      .forEach((pattern, index) => {
+        pattern.colorIndex = scheme[index % scheme.length];
+        pattern.customColor = undefined;
+      });
+  }
+
+  /**
+   * Settings of the groups used by some of the given patterns, for exports
+   */
+  private exportGroups(
+    groups: PatternGroup[] | undefined,
+    patterns: Pattern[]
+  ): PatternGroup[] {
+    return (groups || []).filter(
+      (group) =>
+        group.colorScheme && patterns.some((p) => p.group === group.name)
+    );
+  }
+
+  /**
+   * Toggle pattern enabled state
+   */
+  public async togglePattern(id: string): Promise<boolean> {
+    const pattern = this.patterns.find((p) => p.id === id);
+    if (!pattern) {
+      return false;
+    }
+
+    const before = this.snapshotPatterns();
+    pattern.enabled = !pattern.enabled;
+    this.recordHistory(
+      `${pattern.enabled ? "Enable" : "Disable"} "${PatternMatcher.formatPattern(
+        pattern
+      )}"`,
+      before
+    );
+    await this.saveState();
+
+    this._onDidChangePatterns.fire({
+      type: PatternEventType.TOGGLED,
+      pattern,
+    });
+
+    return true;
+  }
+
+  /**
+   * Clear all workspace patterns. User patterns are kept: they are shared by
+   * every workspace, so clearing them here would remove them everywhere.
+   */
+  public async clearPatterns(): Promise<void> {
+    const userPatterns = this.getPatternsByScope("user");
+    if (this.patterns.length === userPatterns.length) {
+      return;
+    }
 
-      this.patterns = validPatterns.slice(0, MAX_PATTERNS);
-      await this.saveState();
+    const before = this.snapshotPatterns();
+    this.patterns = userPatterns;
+    this.lastColorIndex = 0;
+    this.recordHistory("Clear all patterns", before);
+    await this.saveState();
 
+    if (this.patterns.length === 0) {
+      this._onDidChangePatterns.fire({
+        type: PatternEventType.CLEARED,
+      });
+    } else {
       this._onDidChangePatterns.fire({
         type: PatternEventType.UPDATED,
         patterns: this.patterns,
       });
-
-      // Patterns imported silently
-    } catch (error) {
-      vscode.window.showErrorMessage(
-        "Failed to import patterns: Invalid format"
-      );
     }
   }
 
   /**
-   * Export patterns to JSON
+   * Description of the operation that undo would revert, if any
    */
-  public exportPatterns(): any[] {
-    return this.patterns.map((pattern) => ({
-      id: pattern.id,
-      text: pattern.text,
-      colorIndex: pattern.colorIndex,
-      enabled: pattern.enabled,
-      createdAt: pattern.createdAt,
-      description: pattern.description,
-    }));
+  public getUndoLabel(): string | undefined {
+    return this.undoStack[this.undoStack.length - 1]?.label;
   }
 
   /**
-   * Generate unique ID for pattern
+   * Description of the operation that redo would reapply, if any
    */
-  private generateId(): string {
-    return `pattern_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  public getRedoLabel(): string | undefined {
+    return this.redoStack[this.redoStack.length - 1]?.label;
   }
 
   /**
-   * Get next available color index
+   * Revert the last pattern operation.
+   * Returns its description, or undefined when there is nothing to undo.
    */
-  private getNextColorIndex(): number {
-    // Find the next unused color index
-    const usedIndices = new Set(this.patterns.map((p) => p.colorIndex));
-
-    for (let i = 0; i < COLOR_PALETTE.length; i++) {
-      if (!usedIndices.has(i)) {
-        this.lastColorIndex = i;
-        return i;
-      }
+  public async undo(): Promise<string | undefined> {
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      return undefined;
     }
 
-    // If all colors are used, cycle through them
-    this.lastColorIndex = (this.lastColorIndex + 1) % COLOR_PALETTE.length;
-    return this.lastColorIndex;
+    this.redoStack.push(entry);
+    await this.restoreSnapshot(entry.before, entry.groups?.before);
+    return entry.label;
   }
 
   /**
-   * Load state from VS Code workspace storage
+   * Reapply the last undone pattern operation.
+   * Returns its description, or undefined when there is nothing to redo.
    */
-  private loadState(): void {
-    try {
-      const storedPatterns = this.context.workspaceState.get<Pattern[]>(
-        STORAGE_KEYS.PATTERNS
-      );
-      const storedConfig = this.context.workspaceState.get<PatternConfig>(
-        STORAGE_KEYS.CONFIG
-      );
-      const storedLastColorIndex = this.context.workspaceState.get<number>(
-        STORAGE_KEYS.LAST_COLOR_INDEX
-      );
+  public async redo(): Promise<string | undefined> {
+    const entry = this.redoStack.pop();
+    if (!entry) {
+      return undefined;
+    }
 
-      console.log("PatternManager: Loading state from storage");
-      console.log("PatternManager: Stored patterns:", storedPatterns);
-      console.log("PatternManager: Stored config:", storedConfig);
+    this.undoStack.push(entry);
+    await this.restoreSnapshot(entry.after, entry.groups?.after);
+    return entry.label;
+  }
 
-      this.patterns = storedPatterns || [];
-      this.config = { ...DEFAULT_CONFIG, ...storedConfig };
-      this.lastColorIndex = storedLastColorIndex || 0;
+  /**
+   * Copy the current patterns so later in-place changes do not affect them
+   */
+  private snapshotPatterns(): Pattern[] {
+    return this.clonePatterns(this.patterns);
+  }
 
-      // Validate patterns
-      this.patterns = this.patterns
-        .filter((p) => p.text && typeof p.text === "string")
-        .slice(0, MAX_PATTERNS);
+  /**
+   * Copy patterns one level deep (custom colors included)
+   */
+  private clonePatterns(patterns: Pattern[]): Pattern[] {
+    return patterns.map((p) => ({
+      ...p,
+      customColor: p.customColor && { ...p.customColor },
+    }));
+  }
 
-      console.log(
-        "PatternManager: Loaded patterns after validation:",
-        this.patterns.length,
-        this.patterns
-      );
-    } catch (error) {
-      console.error("Failed to load pattern state:", error);
-      this.patterns = [];
-      this.config = { ...DEFAULT_CONFIG };
-      this.lastColorIndex = 0;
-    }
+  /**
+   * Copy the group settings of both scopes
+   */
+  private snapshotGroups(): GroupSettings {
+    const copy = (groups: PatternGroup[]) =>
+      groups.map((group) => ({
+        ...group,
+        colorScheme: group.colorScheme && [...group.colorScheme],
+      }));
+    return {
+      user: copy(this.getGroupSettings("user")),
+      workspace: copy(this.getGroupSettings("workspace")),
+    };
   }
 
   /**
-   * Save state to VS Code workspace storage
+   * Record a completed operation; a new operation discards the redo history.
+   * Group settings are recorded too when their previous state is given.
    */
-  private async saveState(): Promise<void> {
-    try {
-      await Promise.all([
-        this.context.workspaceState.update(
+  private recordHistory(
+    label: string,
+    before: Pattern[],
+    groupsBefore?: GroupSettings
+  ): void {
+    this.undoStack.push({
+      label,
+      before,
+      after: this.snapshotPatterns(),
+      groups: groupsBefore && {
+        before: groupsBefore,
+        after: this.snapshotGroups(),
+      },
+    });
+    if (this.undoStack.length > HISTORY_LIMIT) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.updateHistoryContext();
+  }
+
+  /**
+   * Forget all undo and redo history
+   */
+  private clearHistory(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.updateHistoryContext();
+  }
+
+  /**
+   * Replace the patterns with a snapshot from the history
+   */
+  private async restoreSnapshot(
+    snapshot: Pattern[],
+    groups?: GroupSettings
+  ): Promise<void> {
+    this.patterns = this.clonePatterns(snapshot);
+    if (groups) {
+      this.userGroups = groups.user.map((group) => ({ ...group }));
+      this.findSet(this.activeSetId)!.groups = groups.workspace.map(
+        (group) => ({ ...group })
+      );
+    }
+    this.updateHistoryContext();
+    await this.saveState();
+
+    this._onDidChangePatterns.fire({
+      type: PatternEventType.UPDATED,
+      patterns: this.patterns,
+    });
+  }
+
+  /**
+   * Expose undo/redo availability to `when` clauses and command enablement
+   */
+  private updateHistoryContext(): void {
+    vscode.commands.executeCommand(
+      "setContext",
+      "patternColorization.canUndo",
+      this.undoStack.length > 0
+    );
+    vscode.commands.executeCommand(
+      "setContext",
+      "patternColorization.canRedo",
+      this.redoStack.length > 0
+    );
+  }
+
+  /**
+   * Get all pattern sets; the active set reflects its current patterns
+   */
+  public getPatternSets(): PatternSet[] {
+    this.syncActiveSet();
+    return this.sets.map((set) => ({ ...set, patterns: [...set.patterns] }));
+  }
+
+  /**
+   * Get the active pattern set
+   */
+  public getActiveSet(): PatternSet {
+    this.syncActiveSet();
+    const set = this.findSet(this.activeSetId)!;
+    return { ...set, patterns: [...set.patterns] };
+  }
+
+  /**
+   * Whether another set already uses the given name
+   */
+  public isSetNameTaken(name: string, excludeId?: string): boolean {
+    const normalized = name.trim().toLowerCase();
+    return this.sets.some(
+      (set) => set.id !== excludeId && set.name.toLowerCase() === normalized
+    );
+  }
+
+  /**
+   * Create an empty pattern set and make it active
+   */
+  public async createPatternSet(name: string): Promise<PatternSet | null> {
+    if (!name.trim() || this.isSetNameTaken(name)) {
+      return null;
+    }
+
+    const set: PatternSet = {
+      id: this.generateSetId(),
+      name: name.trim(),
+      patterns: [],
+      createdAt: Date.now(),
+    };
+    this.sets.push(set);
+    await this.switchPatternSet(set.id);
+
+    return set;
+  }
+
+  /**
+   * Copy a pattern set under a new name and make the copy active
+   */
+  public async duplicatePatternSet(
+    id: string,
+    name: string
+  ): Promise<PatternSet | null> {
+    this.syncActiveSet();
+    const source = this.findSet(id);
+    if (!source || !name.trim() || this.isSetNameTaken(name)) {
+      return null;
+    }
+
+    const set: PatternSet = {
+      id: this.generateSetId(),
+      name: name.trim(),
+      patterns: source.patterns.map((pattern) => ({
+        ...pattern,
+        id: this.generateId(),
+      })),
+      groups: source.groups?.map((group) => ({ ...group })),
+      createdAt: Date.now(),
+    };
+    this.sets.push(set);
+    await this.switchPatternSet(set.id);
+
+    return set;
+  }
+
+  /**
+   * Rename a pattern set
+   */
+  public async renamePatternSet(id: string, name: string): Promise<boolean> {
+    const set = this.findSet(id);
+    if (!set || !name.trim() || this.isSetNameTaken(name, id)) {
+      return false;
+    }
+
+    set.name = name.trim();
+    await this.saveState();
+
+    this._onDidChangePatterns.fire({
+      type: PatternEventType.SET_CHANGED,
+    });
+
+    return true;
+  }
+
+  /**
+   * Delete a pattern set. The last remaining set cannot be deleted; deleting
+   * the active set activates the first remaining one.
+   */
+  public async deletePatternSet(id: string): Promise<boolean> {
+    if (this.sets.length <= 1 || !this.findSet(id)) {
+      return false;
+    }
+
+    if (id === this.activeSetId) {
+      const next = this.sets.find((set) => set.id !== id)!;
+      this.activateSet(next.id);
+    }
+    this.sets = this.sets.filter((set) => set.id !== id);
+    await this.saveState();
+
+    this._onDidChangePatterns.fire({
+      type: PatternEventType.SET_CHANGED,
+      patterns: this.patterns,
+    });
+
+    return true;
+  }
+
+  /**
+   * Make a pattern set active, replacing the current workspace patterns
+   */
+  public async switchPatternSet(id: string): Promise<boolean> {
+    if (!this.findSet(id)) {
+      return false;
+    }
+
+    this.activateSet(id);
+    await this.saveState();
+
+    this._onDidChangePatterns.fire({
+      type: PatternEventType.SET_CHANGED,
+      patterns: this.patterns,
+    });
+
+    return true;
+  }
+
+  /**
+   * Store the current workspace patterns in the active set and load another set
+   */
+  private activateSet(id: string): void {
+    this.syncActiveSet();
+    this.activeSetId = id;
+    this.clearHistory();
+    this.patterns = [
+      ...this.getPatternsByScope("user"),
+      ...this.findSet(id)!.patterns,
+    ];
+  }
+
+  /**
+   * Copy the current workspace patterns into the active set
+   */
+  private syncActiveSet(): void {
+    const set = this.findSet(this.activeSetId);
+    if (set) {
+      set.patterns = this.getPatternsByScope("workspace");
+    }
+  }
+
+  /**
+   * Find a pattern set by ID
+   */
+  private findSet(id: string): PatternSet | undefined {
+    return this.sets.find((set) => set.id === id);
+  }
+
+  /**
+   * Update configuration
+   */
+  public async updateConfig(config: Partial<PatternConfig>): Promise<void> {
+    Object.assign(this.config, config);
+    await this.saveState();
+
+    // Trigger refresh of all patterns
+    this._onDidChangePatterns.fire({
+      type: PatternEventType.UPDATED,
+      patterns: this.patterns,
+    });
+  }
+
+  /**
+   * Get color definition for a pattern
+   */
+  public getColorForPattern(pattern: Pattern) {
+    return ColorService.getColorDefinition(pattern);
+  }
+
+  /**
+   * Work out what importing the given patterns would do, without changing
+   * anything. Duplicate texts in the file are skipped, colliding ids are
+   * regenerated and colliding preset colors are reassigned.
+   */
+  public planImport(patternsData: any[], mode: ImportMode): ImportPlan {
+    const parsed = this.parsePatterns(patternsData);
+    const removed =
+      mode === "replace" ? this.getPatternsByScope("workspace") : [];
+
+    // Patterns that will exist after the import, used to detect collisions
+    const occupied = this.patterns.filter((p) => !removed.includes(p));
+    const candidates: ImportCandidate[] = [];
+
+    for (const incoming of parsed) {
+      const earlier = candidates.find(
+        (c) => c.action !== "skip" && this.isSamePattern(c.pattern, incoming)
+      );
+      if (earlier) {
+        candidates.push({
+          pattern: incoming,
+          action: "skip",
+          reason: "Duplicate in imported file",
+        });
+        continue;
+      }
+
+      const existing = occupied.find((p) => this.isSamePattern(p, incoming));
+      if (existing && mode !== "update") {
+        candidates.push({
+          pattern: incoming,
+          action: "skip",
+          existing,
+          reason: "Already exists",
+        });
+        continue;
+      }
+
+      const others = occupied.filter((p) => p !== existing);
+      const pattern: Pattern = existing
+        ? {
+            ...incoming,
+            id: existing.id,
+            scope: existing.scope,
+            createdAt: existing.createdAt,
+          }
+        : {
+            ...incoming,
+            id: occupied.some((p) => p.id === incoming.id)
+              ? this.generateId()
+              : incoming.id,
+          };
+
+      let originalColorIndex: number | undefined;
+      const colorTaken = (index: number) =>
+        others.some((p) => !p.customColor && p.colorIndex === index);
+      if (!pattern.customColor && colorTaken(pattern.colorIndex)) {
+        const free = COLOR_PALETTE.findIndex((_, index) => !colorTaken(index));
+        if (free !== -1) {
+          originalColorIndex = pattern.colorIndex;
+          pattern.colorIndex = free;
+        }
+      }
+
+      if (existing) {
+        occupied[occupied.indexOf(existing)] = pattern;
+      } else {
+        occupied.push(pattern);
+      }
+      candidates.push({
+        pattern,
+        action: existing ? "update" : "add",
+        existing,
+        originalColorIndex,
+      });
+    }
+
+    return {
+      mode,
+      candidates,
+      removed,
+      invalidCount: patternsData.length - parsed.length,
+    };
+  }
+
+  /**
+   * Apply a previously computed import plan, limited to the accepted
+   * candidates, along with the settings of imported groups that do not
+   * exist yet
+   */
+  public async applyImport(
+    plan: ImportPlan,
+    accepted: ImportCandidate[],
+    groups: { user?: any; workspace?: any } = {}
+  ): Promise<void> {
+    const groupsBefore = this.snapshotGroups();
+    this.importGroups("user", groups.user);
+    this.importGroups("workspace", groups.workspace);
+
+    const removedIds = new Set(plan.removed.map((p) => p.id));
+    const patterns = this.patterns.filter((p) => !removedIds.has(p.id));
+    const existingCount = patterns.length;
+
+    for (const candidate of accepted) {
+      if (candidate.action === "update") {
+        const index = patterns.findIndex(
+          (p) => p.id === candidate.pattern.id
+        );
+        if (index !== -1) {
+          patterns[index] = candidate.pattern;
+        }
+      } else if (candidate.action === "add") {
+        patterns.push(candidate.pattern);
+      }
+    }
+
+    const before = this.snapshotPatterns();
+    const max = this.getMaxPatterns();
+    this.patterns =
+      max > 0 ? patterns.slice(0, Math.max(max, existingCount)) : patterns;
+    this.recordHistory(
+      `Import ${accepted.length} pattern${accepted.length !== 1 ? "s" : ""}`,
+      before,
+      groupsBefore
+    );
+    await this.saveState();
+
+    if (this.patterns.length < patterns.length) {
+      vscode.window.showWarningMessage(
+        `Imported ${this.patterns.length - existingCount} of ${
+          patterns.length - existingCount
+        } new patterns: the maximum pattern count is ${max} (setting "patternColorization.maxPatterns")`
+      );
+    }
+
+    this._onDidChangePatterns.fire({
+      type: PatternEventType.UPDATED,
+      patterns: this.patterns,
+    });
+  }
+
+  /**
+   * Whether two patterns have the same scope, kind and text, using the same
+   * rules as findDuplicate
+   */
+  private isSamePattern(a: Pattern, b: Pattern): boolean {
+    return (
+      a.scope === b.scope &&
+      a.kind === b.kind &&
+      (a.kind === "regex"
+        ? a.text === b.text
+        : a.text.toLowerCase() === b.text.toLowerCase())
+    );
+  }
+
+  /**
+   * Export patterns to JSON, optionally limited to one scope
+   */
+  public exportPatterns(scope?: PatternScope): any[] {
+    const patterns = scope ? this.getPatternsByScope(scope) : this.patterns;
+    return patterns.map((pattern) => this.serializePattern(pattern));
+  }
+
+  /**
+   * Export all pattern sets to JSON
+   */
+  public exportSets(): any[] {
+    this.syncActiveSet();
+    return this.sets.map((set) => ({
+      id: set.id,
+      name: set.name,
+      createdAt: set.createdAt,
+      patterns: set.patterns.map((pattern) => this.serializePattern(pattern)),
+      groups: this.exportGroups(set.groups, set.patterns),
+    }));
+  }
+
+  /**
+   * Export everything in the versioned export format: configuration, all
+   * pattern sets and the user patterns. When ids are given, only those
+   * patterns are exported, the workspace ones as the active set.
+   */
+  public exportData(ids?: string[]): PatternExport {
+    const extension = this.context.extension.packageJSON;
+    const activeSet = this.getActiveSet();
+    const selected = ids && this.patterns.filter((p) => ids.includes(p.id));
+
+    return {
+      version: EXPORT_FORMAT_VERSION,
+      metadata: {
+        exportedAt: new Date().toISOString(),
+        exportedBy: `${extension.name} ${extension.version}`,
+        workspace: vscode.workspace.name,
+      },
+      config: { ...this.config },
+      activeSet: activeSet.name,
+      sets: selected
+        ? [
+            {
+              id: activeSet.id,
+              name: activeSet.name,
+              createdAt: activeSet.createdAt,
+              patterns: selected
+                .filter((p) => p.scope === "workspace")
+                .map((p) => this.serializePattern(p)),
+              groups: this.exportGroups(activeSet.groups, selected),
+            },
+          ]
+        : this.exportSets(),
+      userPatterns: selected
+        ? selected
+            .filter((p) => p.scope === "user")
+            .map((p) => this.serializePattern(p))
+        : this.exportPatterns("user"),
+      userGroups: this.exportGroups(
+        this.userGroups,
+        selected || this.getPatternsByScope("user")
+      ),
+    };
+  }
+
+  /**
+   * Convert a pattern to its JSON representation
+   */
+  private serializePattern(pattern: Pattern): any {
+    return {
+      id: pattern.id,
+      text: pattern.text,
+      kind: pattern.kind,
+      flags: pattern.flags,
+      scope: pattern.scope,
+      colorIndex: pattern.colorIndex,
+      customColor: pattern.customColor,
+      style: pattern.style,
+      gutterIcon: pattern.gutterIcon,
+      rulerLane: pattern.rulerLane,
+      group: pattern.group,
+      enabled: pattern.enabled,
+      createdAt: pattern.createdAt,
+      description: pattern.description,
+      caseSensitive: pattern.caseSensitive,
+      wholeWord: pattern.wholeWord,
+    };
+  }
+
+  /**
+   * Convert raw pattern set data into pattern sets, dropping invalid entries
+   */
+  private parseSets(setsData: any[]): PatternSet[] {
+    const sets: PatternSet[] = [];
+
+    for (const data of setsData) {
+      if (
+        data &&
+        typeof data.name === "string" &&
+        data.name.trim() &&
+        Array.isArray(data.patterns) &&
+        !sets.some((set) => set.name.toLowerCase() === data.name.toLowerCase())
+      ) {
+        sets.push({
+          id:
+            typeof data.id === "string" &&
+            !sets.some((set) => set.id === data.id)
+              ? data.id
+              : this.generateSetId(),
+          name: data.name.trim(),
+          patterns: this.parsePatterns(data.patterns).map(
+            (p): Pattern => ({ ...p, scope: "workspace" })
+          ),
+          groups: this.parseGroups(data.groups),
+          createdAt: data.createdAt || Date.now(),
+        });
+      }
+    }
+
+    return sets;
+  }
+
+  /**
+   * Convert raw pattern data (imported or read from a file) into patterns,
+   * dropping entries that are invalid
+   */
+  private parsePatterns(patternsData: any[]): Pattern[] {
+    const validPatterns: Pattern[] = [];
+
+    for (const data of patternsData) {
+      if (data && data.text && typeof data.text === "string") {
+        const kind: PatternKind = data.kind === "regex" ? "regex" : "literal";
+        const flags =
+          kind === "regex" && typeof data.flags === "string"
+            ? data.flags
+            : undefined;
+
+        // Skip regular expressions that would not compile or are unsafe
+        if (
+          kind === "regex" &&
+          PatternMatcher.validateRegex(data.text.trim(), flags)
+        ) {
+          continue;
+        }
+
+        const pattern: Pattern = {
+          id: data.id || this.generateId(),
+          text: data.text.trim(),
+          kind,
+          flags,
+          scope: data.scope === "user" ? "user" : "workspace",
+          colorIndex: Math.min(
+            Math.max(data.colorIndex || 0, 0),
+            COLOR_PALETTE.length - 1
+          ),
+          customColor: this.parseCustomColor(data.customColor),
+          style: PATTERN_STYLES.some((style) => style.id === data.style)
+            ? data.style
+            : undefined,
+          gutterIcon: data.gutterIcon === true ? true : undefined,
+          rulerLane: RULER_LANES.some((lane) => lane.id === data.rulerLane)
+            ? data.rulerLane
+            : undefined,
+          group:
+            typeof data.group === "string" && data.group.trim()
+              ? data.group.trim()
+              : undefined,
+          enabled: data.enabled !== false,
+          createdAt: data.createdAt || Date.now(),
+          description: data.description,
+          caseSensitive:
+            typeof data.caseSensitive === "boolean"
+              ? data.caseSensitive
+              : undefined,
+          wholeWord:
+            typeof data.wholeWord === "boolean" ? data.wholeWord : undefined,
+        };
+        validPatterns.push(pattern);
+      }
+    }
+
+    return validPatterns;
+  }
+
+  /**
+   * Convert raw group data into group settings, dropping invalid entries
+   */
+  private parseGroups(groupsData: any): PatternGroup[] {
+    if (!Array.isArray(groupsData)) {
+      return [];
+    }
+
+    const groups: PatternGroup[] = [];
+    for (const data of groupsData) {
+      if (
+        data &&
+        typeof data.name === "string" &&
+        data.name.trim() &&
+        !groups.some((group) => group.name === data.name.trim())
+      ) {
+        const colorScheme = Array.isArray(data.colorScheme)
+          ? data.colorScheme.filter(
+              (index: any) =>
+                Number.isInteger(index) &&
+                index >= 0 &&
+                index < COLOR_PALETTE.length
+            )
+          : [];
+        groups.push({
+          name: data.name.trim(),
+          colorScheme: colorScheme.length > 0 ? colorScheme : undefined,
+        });
+      }
+    }
+    return groups;
+  }
+
+  /**
+   * Parse a custom color from imported data, ignoring invalid values
+   */
+  private parseCustomColor(data: any): CustomColor | undefined {
+    if (
+      !data ||
+      typeof data.light !== "string" ||
+      !ColorService.isValidHex(data.light)
+    ) {
+      return undefined;
+    }
+
+    const dark =
+      typeof data.dark === "string" && ColorService.isValidHex(data.dark)
+        ? data.dark
+        : data.light;
+
+    return {
+      light: ColorService.normalizeHex(data.light),
+      dark: ColorService.normalizeHex(dark),
+    };
+  }
+
+  /**
+   * Generate unique ID for pattern
+   */
+  private generateId(): string {
+    return `pattern_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Generate unique ID for a pattern set
+   */
+  private generateSetId(): string {
+    return `set_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Get next available color index
+   */
+  private getNextColorIndex(): number {
+    // Find the next unused color index
+    const usedIndices = new Set(this.patterns.map((p) => p.colorIndex));
+
+    for (let i = 0; i < COLOR_PALETTE.length; i++) {
+      if (!usedIndices.has(i)) {
+        this.lastColorIndex = i;
+        return i;
+      }
+    }
+
+    // If all colors are used, cycle through them
+    this.lastColorIndex = (this.lastColorIndex + 1) % COLOR_PALETTE.length;
+    return this.lastColorIndex;
+  }
+
+  /**
+   * Load state from VS Code workspace storage
+   */
+  private loadState(): void {
+    try {
+      const storedPatterns = this.context.workspaceState.get<Pattern[]>(
+        STORAGE_KEYS.PATTERNS
+      );
+      const storedSets = this.context.workspaceState.get<PatternSet[]>(
+        STORAGE_KEYS.PATTERN_SETS
+      );
+      const storedActiveSet = this.context.workspaceState.get<string>(
+        STORAGE_KEYS.ACTIVE_SET
+      );
+      const storedUserPatterns = this.context.globalState.get<Pattern[]>(
+        STORAGE_KEYS.USER_PATTERNS
+      );
+      const storedUserGroups = this.context.globalState.get<PatternGroup[]>(
+        STORAGE_KEYS.USER_GROUPS
+      );
+      const storedConfig = this.context.workspaceState.get<PatternConfig>(
+        STORAGE_KEYS.CONFIG
+      );
+      const storedLastColorIndex = this.context.workspaceState.get<number>(
+        STORAGE_KEYS.LAST_COLOR_INDEX
+      );
+
+      console.log("PatternManager: Loading state from storage");
+      console.log("PatternManager: Stored patterns:", storedPatterns);
+      console.log("PatternManager: Stored config:", storedConfig);
+
+      // Workspaces saved before pattern sets existed get a default set
+      this.sets =
+        storedSets && storedSets.length > 0
+          ? storedSets
+          : [
+              {
+                ...DEFAULT_PATTERN_SET,
+                patterns: storedPatterns || [],
+                createdAt: Date.now(),
+              },
+            ];
+      this.sets.forEach((set) => {
+        set.patterns = this.normalizeStoredPatterns(set.patterns, "workspace");
+      });
+      this.activeSetId =
+        storedActiveSet && this.findSet(storedActiveSet)
+          ? storedActiveSet
+          : this.sets[0].id;
+
+      this.patterns = [
+        ...this.normalizeStoredPatterns(storedUserPatterns || [], "user"),
+        ...this.findSet(this.activeSetId)!.patterns,
+      ];
+      this.userGroups = storedUserGroups || [];
+      this.storedUserState = this.readUserState();
+      this.config = { ...DEFAULT_CONFIG, ...storedConfig };
+      this.lastColorIndex = storedLastColorIndex || 0;
+
+      console.log(
+        "PatternManager: Loaded patterns after validation:",
+        this.patterns.length,
+        this.patterns
+      );
+    } catch (error) {
+      console.error("Failed to load pattern state:", error);
+      this.patterns = [];
+      this.sets = [
+        { ...DEFAULT_PATTERN_SET, patterns: [], createdAt: Date.now() },
+      ];
+      this.activeSetId = DEFAULT_PATTERN_SET.id;
+      this.config = { ...DEFAULT_CONFIG };
+      this.lastColorIndex = 0;
+    }
+  }
+
+  /**
+   * Read a copy of the user patterns and groups from globalState
+   */
+  private readUserState(): StoredUserState {
+    const patterns =
+      this.context.globalState.get<Pattern[]>(STORAGE_KEYS.USER_PATTERNS) ||
+      [];
+    const groups =
+      this.context.globalState.get<PatternGroup[]>(STORAGE_KEYS.USER_GROUPS) ||
+      [];
+    return JSON.parse(
+      JSON.stringify({
+        patterns: this.normalizeStoredPatterns(patterns, "user"),
+        groups,
+      })
+    );
+  }
+
+  /**
+   * Merge the user patterns and groups another window stored since this
+   * window last read or wrote them with this window's own changes. Returns
+   * undefined when no other window changed them.
+   */
+  private mergeUserState(): StoredUserState | undefined {
+    const stored = this.readUserState();
+    const base = this.storedUserState;
+    if (JSON.stringify(stored) === JSON.stringify(base)) {
+      return undefined;
+    }
+
+    return {
+      patterns: PatternManager.mergeById(
+        base.patterns,
+        this.getPatternsByScope("user"),
+        stored.patterns,
+        (pattern) => pattern.id
+      ),
+      groups: PatternManager.mergeById(
+        base.groups,
+        this.userGroups,
+        stored.groups,
+        (group) => group.name
+      ),
+    };
+  }
+
+  /**
+   * Three-way merge of a list changed both here and in another window: the
+   * items this window added, changed or removed since `base` are applied to
+   * the `stored` list, which keeps the other window's changes and order
+   */
+  private static mergeById<T>(
+    base: T[],
+    local: T[],
+    stored: T[],
+    getId: (item: T) => string
+  ): T[] {
+    const baseById = new Map(base.map((item) => [getId(item), item]));
+    const localById = new Map(local.map((item) => [getId(item), item]));
+    const changedHere = (item: T) => {
+      const before = baseById.get(getId(item));
+      return !before || JSON.stringify(before) !== JSON.stringify(item);
+    };
+
+    const merged = stored
+      .filter(
+        (item) => localById.has(getId(item)) || !baseById.has(getId(item))
+      )
+      .map((item) => {
+        const mine = localById.get(getId(item));
+        return mine && changedHere(mine) ? mine : item;
+      });
+    const storedIds = new Set(stored.map(getId));
+    return [
+      ...merged,
+      ...local.filter(
+        (item) => !storedIds.has(getId(item)) && changedHere(item)
+      ),
+    ];
+  }
+
+  /**
+   * Pick up user patterns and groups changed in another window
+   */
+  private reloadUserState(): void {
+    const merged = this.mergeUserState();
+    if (!merged) {
+      return;
+    }
+
+    this.storedUserState = this.readUserState();
+    this.patterns = [
+      ...merged.patterns,
+      ...this.getPatternsByScope("workspace"),
+    ];
+    this.userGroups = merged.groups;
+    // Snapshots taken before an external change no longer apply
+    this.clearHistory();
+    this._onDidChangePatterns.fire({
+      type: PatternEventType.UPDATED,
+      patterns: this.patterns,
+    });
+  }
+
+  /**
+   * Validate stored patterns; patterns stored before regex support are literal
+   */
+  private normalizeStoredPatterns(
+    patterns: Pattern[],
+    scope: PatternScope
+  ): Pattern[] {
+    return (patterns || [])
+      .filter((p) => p && p.text && typeof p.text === "string")
+      .map(
+        (p): Pattern => ({
+          ...p,
+          kind: p.kind === "regex" ? "regex" : "literal",
+          scope,
+        })
+      );
+  }
+
+  /**
+   * Enable or disable the workspace file backend based on settings.
+   * workspaceState is always kept up to date as a local cache.
+   */
+  private configureFileStorage(): void {
+    this.fileStorage?.dispose();
+    this.fileStorage = undefined;
+
+    const settings = vscode.workspace.getConfiguration("patternColorization");
+    if (settings.get<string>("storage", "workspaceState") !== "workspaceFile") {
+      return;
+    }
+
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+      vscode.window.showWarningMessage(
+        "Pattern Colorization: a workspace folder is required to store patterns in a file; using workspace storage instead"
+      );
+      return;
+    }
+
+    const setting = settings
+      .get<string>("storageFile", DEFAULT_STORAGE_FILE)
+      .trim()
+      .replace(/\\/g, "/")
+      .replace(/^\/+/, "");
+
+    // The setting can come from the repository, so it must not point outside
+    // the workspace folder
+    const relativePath = path.posix.normalize(setting || DEFAULT_STORAGE_FILE);
+    if (
+      relativePath === ".." ||
+      relativePath.startsWith("../") ||
+      /^[a-zA-Z]:/.test(relativePath)
+    ) {
+      vscode.window.showWarningMessage(
+        `Pattern Colorization: the patterns file "${setting}" is outside the workspace folder; using workspace storage instead`
+      );
+      return;
+    }
+
+    this.fileStorage = new PatternFileStorage(folder, relativePath);
+    this.fileStorage.watch(() => this.reloadFromFile());
+    this.reloadFromFile(true);
+  }
+
+  /**
+   * Replace the in-memory patterns with the content of the patterns file.
+   * Invalid files are reported and leave the current patterns untouched.
+   */
+  private async reloadFromFile(initial: boolean = false): Promise<void> {
+    const storage = this.fileStorage;
+    if (!storage) {
+      return;
+    }
+
+    try {
+      if (!initial && (await storage.isUnchangedSinceWrite())) {
+        return;
+      }
+
+      const content = await storage.read();
+      if (content === undefined) {
+        // No shared file yet: seed it with the current pattern sets
+        if (initial) {
+          await storage.write({ sets: this.exportSets() });
+        }
+        return;
+      }
+
+      if (content.sets) {
+        const sets = this.parseSets(content.sets);
+        if (sets.length === 0) {
+          throw new Error("The file does not contain any valid pattern set");
+        }
+        this.sets = sets;
+        if (!this.findSet(this.activeSetId)) {
+          this.activeSetId = sets[0].id;
+        }
+      } else {
+        // Plain pattern list: it replaces the patterns of the active set
+        this.syncActiveSet();
+        this.findSet(this.activeSetId)!.patterns = this.parsePatterns(
+          content.patterns || []
+        ).map((p): Pattern => ({ ...p, scope: "workspace" }));
+      }
+
+      // Same limit as imports: patterns beyond the maximum are dropped
+      const userPatterns = this.getPatternsByScope("user");
+      const activeSet = this.findSet(this.activeSetId)!;
+      const max = this.getMaxPatterns();
+      const available = Math.max(0, max - userPatterns.length);
+      if (max > 0 && activeSet.patterns.length > available) {
+        vscode.window.showWarningMessage(
+          `Loaded ${available} of ${activeSet.patterns.length} patterns from ${vscode.workspace.asRelativePath(
+            storage.uri
+          )}: the maximum pattern count is ${max} (setting "patternColorization.maxPatterns")`
+        );
+        activeSet.patterns = activeSet.patterns.slice(0, available);
+      }
+
+      this.patterns = [...userPatterns, ...activeSet.patterns];
+      // Snapshots taken before an external change no longer apply
+      this.clearHistory();
+      await this.saveState(false);
+
+      this._onDidChangePatterns.fire({
+        type: PatternEventType.UPDATED,
+        patterns: this.patterns,
+      });
+    } catch (error) {
+      console.error("Failed to load patterns file:", error);
+      vscode.window.showErrorMessage(
+        `Failed to load ${vscode.workspace.asRelativePath(storage.uri)}: ${
+          error instanceof Error ? error.message : error
+        }. Keeping the current patterns.`
+      );
+    }
+  }
+
+  /**
+   * Save state to VS Code workspace storage and, when enabled, the patterns file
+   */
+  private async saveState(writeFile: boolean = true): Promise<void> {
+    this.syncActiveSet();
+
+    if (writeFile && this.fileStorage) {
+      try {
+        await this.fileStorage.write({ sets: this.exportSets() });
+      } catch (error) {
+        console.error("Failed to write patterns file:", error);
+        vscode.window.showErrorMessage(
+          `Failed to write ${vscode.workspace.asRelativePath(
+            this.fileStorage.uri
+          )}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+
+    // Keep user patterns another window stored since this one last saved
+    const merged = this.mergeUserState();
+    if (merged) {
+      this.patterns = [
+        ...merged.patterns,
+        ...this.getPatternsByScope("workspace"),
+      ];
+      this.userGroups = merged.groups;
+      this._onDidChangePatterns.fire({
+        type: PatternEventType.UPDATED,
+        patterns: this.patterns,
+      });
+    }
+    // A copy, as patterns and groups are edited in place
+    this.storedUserState = JSON.parse(
+      JSON.stringify({
+        patterns: this.getPatternsByScope("user"),
+        groups: this.userGroups,
+      })
+    );
+
+    try {
+      await Promise.all([
+        this.context.workspaceState.update(
           STORAGE_KEYS.PATTERNS,
-          this.patterns
+          this.getPatternsByScope("workspace")
+        ),
+        this.context.workspaceState.update(
+          STORAGE_KEYS.PATTERN_SETS,
+          this.sets
+        ),
+        this.context.workspaceState.update(
+          STORAGE_KEYS.ACTIVE_SET,
+          this.activeSetId
+        ),
+        this.context.globalState.update(
+          STORAGE_KEYS.USER_PATTERNS,
+          this.storedUserState.patterns
+        ),
+        this.context.globalState.update(
+          STORAGE_KEYS.USER_GROUPS,
+          this.storedUserState.groups
         ),
         this.context.workspaceState.update(STORAGE_KEYS.CONFIG, this.config),
         this.context.workspaceState.update(
@@ -346,6 +1836,7 @@ export class PatternManager {
    * Clean up resources
    */
   public dispose(): void {
+    this.fileStorage?.dispose();
     this._onDidChangePatterns.dispose();
   }
 }
@@ -0,0 +1,485 @@
+import { OverlapPolicy, Pattern, PatternConfig } from "../models/pattern";
+import { ALLOWED_REGEX_FLAGS, REGEX_LIMITS } from "../constants/colors";
+import { foldCase } from "./ahoCorasick";
+
+/**
+ * A single match expressed as character offsets into the searched text
+ */
+export interface PatternMatch {
+  start: number;
+  end: number;
+}
+
+/**
+ * Finds pattern matches in plain text. Kept free of the VS Code API so it can
+ * be reused anywhere a text snapshot is available.
+ */
+export class PatternMatcher {
+  private regexCache = new Map<string, RegExp>();
+
+  /**
+   * Find all matches of a pattern in the given text
+   */
+  public findMatches(
+    text: string,
+    pattern: Pattern,
+    config: PatternConfig
+  ): PatternMatch[] {
+    const effectiveConfig = PatternMatcher.resolveConfig(pattern, config);
+    if (pattern.kind === "regex") {
+      return this.findRegexMatches(text, pattern, effectiveConfig);
+    }
+    return this.findLiteralMatches(text, pattern, effectiveConfig);
+  }
+
+  /**
+   * Apply a pattern's own matching options on top of the global configuration
+   */
+  public static resolveConfig(
+    pattern: Pattern,
+    config: PatternConfig
+  ): PatternConfig {
+    return {
+      ...config,
+      caseSensitive: pattern.caseSensitive ?? config.caseSensitive,
+      wholeWord: pattern.wholeWord ?? config.wholeWord,
+    };
+  }
+
+  /**
+   * Literal matching using indexOf; overlapping occurrences are reported.
+   * Case-insensitive matching folds case without changing offsets.
+   */
+  private findLiteralMatches(
+    text: string,
+    pattern: Pattern,
+    config: PatternConfig
+  ): PatternMatch[] {
+    const matches: PatternMatch[] = [];
+    const searchText = config.caseSensitive
+      ? pattern.text
+      : foldCase(pattern.text);
+    const documentText = config.caseSensitive ? text : foldCase(text);
+
+    if (!searchText) {
+      return matches;
+    }
+
+    let index = 0;
+    while (true) {
+      const foundIndex = documentText.indexOf(searchText, index);
+      if (foundIndex === -1) {
+        break;
+      }
+
+      const end = foundIndex + searchText.length;
+      if (
+        !config.wholeWord ||
+        PatternMatcher.isWholeWord(documentText, foundIndex, end)
+      ) {
+        matches.push({ start: foundIndex, end });
+      }
+      index = foundIndex + 1;
+    }
+
+    return matches;
+  }
+
+  /**
+   * Regular expression matching with guards against zero-length matches and
+   * runaway expressions
+   */
+  private findRegexMatches(
+    text: string,
+    pattern: Pattern,
+    config: PatternConfig
+  ): PatternMatch[] {
+    const matches: PatternMatch[] = [];
+    const regex = this.getRegex(pattern, config);
+    if (!regex) {
+      return matches;
+    }
+
+    const startedAt = Date.now();
+    regex.lastIndex = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      const start = match.index;
+      const end = start + match[0].length;
+
+      if (end === start) {
+        // Zero-length match: step past it so the loop always makes progress
+        regex.lastIndex = start + 1;
+      } else if (
+        !config.wholeWord ||
+        PatternMatcher.isWholeWord(text, start, end)
+      ) {
+        matches.push({ start, end });
+      }
+
+      if (matches.length >= REGEX_LIMITS.MAX_MATCHES) {
+        console.warn(
+          `PatternMatcher: Pattern /${pattern.text}/ reached the limit of ${REGEX_LIMITS.MAX_MATCHES} matches`
+        );
+        break;
+      }
+
+      if (Date.now() - startedAt > REGEX_LIMITS.TIME_BUDGET_MS) {
+        console.warn(
+          `PatternMatcher: Pattern /${pattern.text}/ exceeded its ${REGEX_LIMITS.TIME_BUDGET_MS}ms time budget`
+        );
+        break;
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Get (and cache) the compiled expression for a regex pattern
+   */
+  private getRegex(pattern: Pattern, config: PatternConfig): RegExp | null {
+    const flags = PatternMatcher.effectiveFlags(pattern.flags, config);
+    const key = `${flags}/${pattern.text}`;
+
+    let regex = this.regexCache.get(key);
+    if (!regex) {
+      if (PatternMatcher.validateRegex(pattern.text, pattern.flags)) {
+        return null;
+      }
+      regex = new RegExp(pattern.text, flags);
+      if (this.regexCache.size >= 100) {
+        this.regexCache.clear();
+      }
+      this.regexCache.set(key, regex);
+    }
+
+    return regex;
+  }
+
+  /**
+   * Combine the user's flags with the matching configuration
+   */
+  private static effectiveFlags(
+    flags: string | undefined,
+    config: PatternConfig
+  ): string {
+    let effective = "g" + (flags || "");
+    if (!config.caseSensitive && !effective.includes("i")) {
+      effective += "i";
+    }
+    return effective;
+  }
+
+  /**
+   * Check that the characters surrounding a match are not word characters
+   */
+  public static isWholeWord(text: string, start: number, end: number): boolean {
+    const beforeChar = start > 0 ? text[start - 1] : " ";
+    const afterChar = end < text.length ? text[end] : " ";
+    return (
+      !PatternMatcher.isWordCharacter(beforeChar) &&
+      !PatternMatcher.isWordCharacter(afterChar)
+    );
+  }
+
+  /**
+   * Check if a character is a word character
+   */
+  private static isWordCharacter(char: string): boolean {
+    return /\w/.test(char);
+  }
+
+  /**
+   * Validate a regular expression source and flags.
+   * Returns an error message, or null when the expression is usable.
+   */
+  public static validateRegex(source: string, flags?: string): string | null {
+    if (!source) {
+      return "Regular expression cannot be empty";
+    }
+
+    const flagText = flags || "";
+    for (const flag of flagText) {
+      if (!ALLOWED_REGEX_FLAGS.includes(flag)) {
+        return `Unsupported flag "${flag}" (allowed: ${ALLOWED_REGEX_FLAGS})`;
+      }
+    }
+    if (new Set(flagText).size !== flagText.length) {
+      return "Duplicate regular expression flags";
+    }
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(source, flagText);
+    } catch (error) {
+      return error instanceof Error
+        ? error.message
+        : `Invalid regular expression: ${error}`;
+    }
+
+    if (regex.test("")) {
+      return "Regular expression must not match empty text";
+    }
+
+    if (PatternMatcher.hasNestedQuantifier(source)) {
+      return "Nested quantifiers such as (a+)+ can freeze the editor; simplify the expression";
+    }
+
+    if (PatternMatcher.hasAmbiguousAlternation(source)) {
+      return "Repeated alternatives that can start with the same text, such as (a|aa)+, can freeze the editor; make each alternative start differently";
+    }
+
+    return null;
+  }
+
+  /**
+   * Heuristic detection of nested quantifiers, the usual cause of
+   * catastrophic backtracking
+   */
+  private static hasNestedQuantifier(source: string): boolean {
+    const stack: boolean[] = [];
+    let quantifiedInside = false;
+
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+
+      if (char === "\\") {
+        i++;
+        continue;
+      }
+
+      if (char === "[") {
+        // Skip character classes entirely
+        while (i < source.length && source[i] !== "]") {
+          if (source[i] === "\\") {
+            i++;
+          }
+          i++;
+        }
+        continue;
+      }
+
+      if (char === "(") {
+        stack.push(quantifiedInside);
+        quantifiedInside = false;
+      } else if (char === ")") {
+        const next = source[i + 1];
+        const groupIsQuantified =
+          next === "*" || next === "+" || next === "{";
+        if (quantifiedInside && groupIsQuantified) {
+          return true;
+        }
+        const outer = stack.pop() || false;
+        quantifiedInside = outer || quantifiedInside || groupIsQuantified;
+      } else if (char === "*" || char === "+" || char === "{") {
+        quantifiedInside = true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Heuristic detection of repeated groups whose alternatives can match the
+   * same text, such as (a|aa)+ or (\w|\d)+, which backtrack exponentially
+   * like nested quantifiers. Alternatives count as distinct only when each
+   * starts with a different literal character.
+   */
+  private static hasAmbiguousAlternation(source: string): boolean {
+    const starts: number[] = [];
+
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+
+      if (char === "\\") {
+        i++;
+      } else if (char === "[") {
+        i = PatternMatcher.skipClass(source, i);
+      } else if (char === "(") {
+        starts.push(i + 1);
+      } else if (char === ")") {
+        const start = starts.pop() ?? 0;
+        const next = source[i + 1];
+        if (next !== "*" && next !== "+" && next !== "{") {
+          continue;
+        }
+
+        // Skip the group's "?:", lookaround or name marker
+        const body = source
+          .slice(start, i)
+          .replace(/^\?(?:[:=!]|<[=!]|<[^>]*>)/, "");
+        const alternatives = PatternMatcher.splitAlternatives(body);
+        if (alternatives.length < 2) {
+          continue;
+        }
+        const firstChars = alternatives.map((alternative) =>
+          PatternMatcher.getFirstLiteral(alternative)
+        );
+        if (
+          firstChars.includes(undefined) ||
+          new Set(firstChars).size !== firstChars.length
+        ) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Index of the "]" closing the character class opened at the given index
+   */
+  private static skipClass(source: string, open: number): number {
+    let i = open + 1;
+    while (i < source.length && source[i] !== "]") {
+      if (source[i] === "\\") {
+        i++;
+      }
+      i++;
+    }
+    return i;
+  }
+
+  /**
+   * Split an expression on the "|" outside groups and character classes
+   */
+  private static splitAlternatives(source: string): string[] {
+    const alternatives: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+      if (char === "\\") {
+        i++;
+      } else if (char === "[") {
+        i = PatternMatcher.skipClass(source, i);
+      } else if (char === "(") {
+        depth++;
+      } else if (char === ")") {
+        depth--;
+      } else if (char === "|" && depth === 0) {
+        alternatives.push(source.slice(start, i));
+        start = i + 1;
+      }
+    }
+    alternatives.push(source.slice(start));
+    return alternatives;
+  }
+
+  /**
+   * The literal character an alternative always starts with, in lower case
+   * since matching usually ignores case, or undefined when it can start with several
+   * characters (a class, an escape such as \w, a group, an optional first
+   * character) or match empty text
+   */
+  private static getFirstLiteral(alternative: string): string | undefined {
+    let char = alternative[0];
+    let length = 1;
+    if (char === undefined || "([.^$".includes(char)) {
+      return undefined;
+    }
+    if (char === "\\") {
+      char = alternative[1];
+      length = 2;
+      if (char === undefined || /[0-9bBdDsSwWpPuxck]/.test(char)) {
+        return undefined;
+      }
+    }
+
+    const quantifier = alternative[length];
+    if (
+      quantifier === "?" ||
+      quantifier === "*" ||
+      alternative.startsWith("{0", length)
+    ) {
+      return undefined;
+    }
+    return char.toLowerCase();
+  }
+
+  /**
+   * Drop overlapping matches according to an overlap policy.
+   * `matchesByPattern` holds the matches of each pattern, highest priority
+   * first; the result has the same shape with the kept matches in order.
+   */
+  public static resolveOverlaps(
+    matchesByPattern: PatternMatch[][],
+    policy: OverlapPolicy
+  ): PatternMatch[][] {
+    if (policy === "stack") {
+      return matchesByPattern;
+    }
+
+    const candidates = matchesByPattern.flatMap((matches, priority) =>
+      matches.map((match) => ({ match, priority }))
+    );
+    candidates.sort((a, b) => {
+      if (policy === "longestMatch") {
+        const length =
+          b.match.end - b.match.start - (a.match.end - a.match.start);
+        if (length !== 0) {
+          return length;
+        }
+      }
+      return a.priority - b.priority || a.match.start - b.match.start;
+    });
+
+    // Accepted matches never overlap, so they stay sorted by start and end
+    const accepted: Array<{ match: PatternMatch; priority: number }> = [];
+    for (const candidate of candidates) {
+      let low = 0;
+      let high = accepted.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (accepted[mid].match.start < candidate.match.start) {
+          low = mid + 1;
+        } else {
+          high = mid;
+        }
+      }
+
+      const previous = accepted[low - 1];
+      const next = accepted[low];
+      if (
+        (previous && previous.match.end > candidate.match.start) ||
+        (next && next.match.start < candidate.match.end)
+      ) {
+        continue;
+      }
+      accepted.splice(low, 0, candidate);
+    }
+
+    const result: PatternMatch[][] = matchesByPattern.map(() => []);
+    accepted.forEach(({ match, priority }) => result[priority].push(match));
+    return result;
+  }
+
+  /**
+   * Parse user input of the form `/source/flags`; bare input is taken as the
+   * expression source with no flags
+   */
+  public static parseRegexInput(value: string): {
+    source: string;
+    flags: string;
+  } {
+    const trimmed = value.trim();
+    const match = /^\/(.*)\/([a-z]*)$/s.exec(trimmed);
+    if (match) {
+      return { source: match[1], flags: match[2] };
+    }
+    return { source: trimmed, flags: "" };
+  }
+
+  /**
+   * Format a pattern for display, using `/source/flags` for regex patterns
+   */
+  public static formatPattern(pattern: Pattern): string {
+    if (pattern.kind === "regex") {
+      return `/${pattern.text}/${pattern.flags || ""}`;
+    }
+    return pattern.text;
+  }
+}
@@ -28,11 +28,11 @@ export class TreeDecorationProvider implements vscode.FileDecorationProvider {
       };
     }
 
-    // Check if this is a disabled pattern URI
-    if (uri.scheme === "disabled-pattern") {
+    // Check if this is a user pattern overridden by a workspace pattern
+    if (uri.scheme === "overridden-pattern") {
       return {
         color: new vscode.ThemeColor("patternColorization.disabledText"),
-        tooltip: "Pattern is disabled",
+        tooltip: "Overridden by workspace pattern",
       };
     }
 
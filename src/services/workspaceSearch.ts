@@ -0,0 +1,272 @@
+import * as vscode from "vscode";
+import {
+  LineOccurrence,
+  Pattern,
+  PatternConfig,
+  PatternOccurrences,
+} from "../models/pattern";
+import { PatternMatch } from "./patternMatcher";
+import { MatchEngine } from "./matchEngine";
+import { MatchWorkerPool } from "./matchWorkerPool";
+import { WORKSPACE_SEARCH_LIMITS } from "../constants/colors";
+
+/**
+ * Outcome of a workspace search
+ */
+export interface WorkspaceSearchResult {
+  results: PatternOccurrences[];
+  /** Number of files that were scanned */
+  fileCount: number;
+  /** Whether the search was cancelled or stopped at the result limit */
+  incomplete: boolean;
+}
+
+/**
+ * Searches files in the workspace for pattern occurrences, including files
+ * that are not open in an editor. Large files are matched on worker threads.
+ */
+export class WorkspaceSearch {
+  private readonly engine = new MatchEngine();
+
+  /**
+   * Search the workspace for the given patterns.
+   * Honors files.exclude and search.exclude; open documents are searched
+   * with their unsaved content.
+   */
+  public async search(
+    patterns: Pattern[],
+    config: PatternConfig,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+  ): Promise<WorkspaceSearchResult> {
+    const results: PatternOccurrences[] = patterns.map((pattern) => ({
+      pattern,
+      files: [],
+      count: 0,
+    }));
+
+    progress.report({ message: "Finding files..." });
+    const files = await vscode.workspace.findFiles(
+      "**/*",
+      this.getExcludeGlob(),
+      undefined,
+      token
+    );
+    files.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+
+    const openDocuments = new Map(
+      vscode.workspace.textDocuments.map((doc) => [doc.uri.toString(), doc])
+    );
+
+    let total = 0;
+    let scanned = 0;
+    let limitReached = false;
+    const pool = new MatchWorkerPool(this.engine);
+    try {
+      for (const uri of files) {
+        if (token.isCancellationRequested) {
+          break;
+        }
+
+        progress.report({
+          message: `${scanned + 1}/${files.length}: ${vscode.workspace.asRelativePath(
+            uri
+          )}`,
+          increment: 100 / files.length,
+        });
+
+        const text = await this.readText(
+          uri,
+          openDocuments.get(uri.toString())
+        );
+        scanned++;
+        if (text === undefined) {
+          continue;
+        }
+
+        const found = await this.matchText(
+          pool,
+          uri,
+          text,
+          results.map((result) => result.pattern),
+          config,
+          token
+        );
+        if (!found) {
+          continue;
+        }
+        for (const [index, result] of results.entries()) {
+          const matches = found[index];
+          if (matches.length === 0) {
+            continue;
+          }
+
+          const lines = this.groupByLine(text, matches);
+          result.files.push({
+            uri: uri.toString(),
+            lines,
+            count: matches.length,
+          });
+          result.count += matches.length;
+          total += matches.length;
+        }
+
+        if (total >= WORKSPACE_SEARCH_LIMITS.MAX_RESULTS) {
+          limitReached = true;
+          break;
+        }
+
+        // Let the extension host handle other events, such as cancellation
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    } finally {
+      pool.dispose();
+    }
+
+    return {
+      results,
+      fileCount: scanned,
+      incomplete: limitReached || token.isCancellationRequested,
+    };
+  }
+
+  /**
+   * Match the patterns in a file's text on the worker pool. Returns
+   * undefined when the search is cancelled or the file cannot be matched.
+   */
+  private async matchText(
+    pool: MatchWorkerPool,
+    uri: vscode.Uri,
+    text: string,
+    patterns: Pattern[],
+    config: PatternConfig,
+    token: vscode.CancellationToken
+  ): Promise<PatternMatch[][] | undefined> {
+    const job = pool.findAll(uri.toString(), 0, text, patterns, config);
+    const cancellation = token.onCancellationRequested(() =>
+      pool.cancel(job.id)
+    );
+    try {
+      return await job.matches;
+    } catch (error) {
+      console.warn(`WorkspaceSearch: Could not match ${uri.fsPath}:`, error);
+      return undefined;
+    } finally {
+      cancellation.dispose();
+    }
+  }
+
+  /**
+   * Combine files.exclude and search.exclude into a single glob.
+   * Conditional excludes (`{ "when": ... }`) are not supported by findFiles
+   * and are ignored.
+   */
+  private getExcludeGlob(): string | undefined {
+    const globs = new Set<string>();
+    for (const section of ["files", "search"]) {
+      const excludes =
+        vscode.workspace
+          .getConfiguration(section)
+          .get<Record<string, unknown>>("exclude") || {};
+      Object.entries(excludes)
+        .filter(([, value]) => value === true)
+        .forEach(([glob]) => globs.add(glob));
+    }
+
+    if (globs.size === 0) {
+      return undefined;
+    }
+    return `{${Array.from(globs).join(",")}}`;
+  }
+
+  /**
+   * Read a file as text. Returns undefined for binary and oversized files.
+   */
+  private async readText(
+    uri: vscode.Uri,
+    document: vscode.TextDocument | undefined
+  ): Promise<string | undefined> {
+    if (document) {
+      return document.getText();
+    }
+
+    try {
+      const stat = await vscode.workspace.fs.stat(uri);
+      if (stat.size > WORKSPACE_SEARCH_LIMITS.MAX_FILE_SIZE) {
+        return undefined;
+      }
+
+      const bytes = await vscode.workspace.fs.readFile(uri);
+      // Treat files with NUL bytes near the start as binary
+      if (bytes.subarray(0, 8000).includes(0)) {
+        return undefined;
+      }
+      return Buffer.from(bytes).toString("utf8");
+    } catch (error) {
+      console.warn(`WorkspaceSearch: Could not read ${uri.fsPath}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Convert match offsets (in ascending order) to per-line occurrences
+   */
+  private groupByLine(text: string, matches: PatternMatch[]): LineOccurrence[] {
+    const lines: LineOccurrence[] = [];
+    let line = 0;
+    let lineStart = 0;
+    let previewStart = 0;
+    let current: LineOccurrence | undefined;
+
+    for (const match of matches) {
+      // Advance to the line containing the start of the match
+      let nextBreak = text.indexOf("\n", lineStart);
+      while (nextBreak !== -1 && nextBreak < match.start) {
+        line++;
+        lineStart = nextBreak + 1;
+        nextBreak = text.indexOf("\n", lineStart);
+      }
+
+      const column = match.start - lineStart;
+      if (!current || current.line !== line) {
+        const lineText = text
+          .slice(lineStart, nextBreak === -1 ? text.length : nextBreak)
+          .replace(/\r$/, "");
+
+        // Keep some context before the match, without leading whitespace
+        previewStart = Math.max(
+          0,
+          column - WORKSPACE_SEARCH_LIMITS.PREVIEW_CONTEXT
+        );
+        while (previewStart < column && /\s/.test(lineText[previewStart])) {
+          previewStart++;
+        }
+
+        current = {
+          line,
+          preview: lineText.slice(
+            previewStart,
+            previewStart + WORKSPACE_SEARCH_LIMITS.PREVIEW_LENGTH
+          ),
+          previewRanges: [],
+          column,
+          endColumn: Math.min(match.end - lineStart, lineText.length),
+          count: 0,
+        };
+        lines.push(current);
+      }
+
+      current.count++;
+      const start = column - previewStart;
+      const end = Math.min(
+        match.end - lineStart - previewStart,
+        current.preview.length
+      );
+      if (start >= 0 && start < end) {
+        current.previewRanges.push([start, end]);
+      }
+    }
+
+    return lines;
+  }
+}
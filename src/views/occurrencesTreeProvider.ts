@@ -0,0 +1,205 @@
+import * as vscode from "vscode";
+import {
+  FileOccurrences,
+  LineOccurrence,
+  PatternOccurrences,
+} from "../models/pattern";
+import { PatternMatcher } from "../services/patternMatcher";
+import { ColorService } from "../services/colorService";
+
+/**
+ * Node of the occurrences tree: pattern > file > line
+ */
+export type OccurrenceNode =
+  | { type: "pattern"; result: PatternOccurrences }
+  | { type: "file"; result: PatternOccurrences; file: FileOccurrences }
+  | { type: "line"; file: FileOccurrences; line: LineOccurrence };
+
+/**
+ * Tree data provider showing the results of a workspace occurrence search
+ */
+export class OccurrencesTreeProvider
+  implements vscode.TreeDataProvider<OccurrenceNode>
+{
+  private results: PatternOccurrences[] = [];
+  private _onDidChangeTreeData: vscode.EventEmitter<
+    OccurrenceNode | undefined | null | void
+  > = new vscode.EventEmitter<OccurrenceNode | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<
+    OccurrenceNode | undefined | null | void
+  > = this._onDidChangeTreeData.event;
+
+  /**
+   * Show new search results
+   */
+  public setResults(results: PatternOccurrences[]): void {
+    this.results = results;
+    vscode.commands.executeCommand(
+      "setContext",
+      "patternColorization.hasOccurrences",
+      results.length > 0
+    );
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Remove all results
+   */
+  public clear(): void {
+    this.setResults([]);
+  }
+
+  /**
+   * Summary of the current results for the view description
+   */
+  public getSummary(): string | undefined {
+    if (this.results.length === 0) {
+      return undefined;
+    }
+    const matches = this.results.reduce((sum, r) => sum + r.count, 0);
+    const files = new Set(
+      this.results.flatMap((r) => r.files.map((file) => file.uri))
+    ).size;
+    return `${matches} match${matches !== 1 ? "es" : ""} in ${files} file${
+      files !== 1 ? "s" : ""
+    }`;
+  }
+
+  /**
+   * Get child nodes
+   */
+  public getChildren(element?: OccurrenceNode): OccurrenceNode[] {
+    if (!element) {
+      return this.results.map((result) => ({ type: "pattern", result }));
+    }
+    if (element.type === "pattern") {
+      return element.result.files.map((file) => ({
+        type: "file",
+        result: element.result,
+        file,
+      }));
+    }
+    if (element.type === "file") {
+      return element.file.lines.map((line) => ({
+        type: "line",
+        file: element.file,
+        line,
+      }));
+    }
+    return [];
+  }
+
+  /**
+   * Get tree item representation
+   */
+  public getTreeItem(element: OccurrenceNode): vscode.TreeItem {
+    switch (element.type) {
+      case "pattern":
+        return this.getPatternTreeItem(element.result);
+      case "file":
+        return this.getFileTreeItem(element.file);
+      case "line":
+        return this.getLineTreeItem(element.file, element.line);
+    }
+  }
+
+  /**
+   * Pattern node: colored like the pattern, with the total match count
+   */
+  private getPatternTreeItem(result: PatternOccurrences): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      PatternMatcher.formatPattern(result.pattern),
+      result.count > 0
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.None
+    );
+    item.description =
+      result.count > 0
+        ? `${result.count} match${result.count !== 1 ? "es" : ""} in ${
+            result.files.length
+          } file${result.files.length !== 1 ? "s" : ""}`
+        : "No matches";
+    item.iconPath = result.pattern.customColor
+      ? {
+          light: ColorService.createIconUri(result.pattern.customColor.light),
+          dark: ColorService.createIconUri(result.pattern.customColor.dark),
+        }
+      : new vscode.ThemeIcon(
+          "circle-filled",
+          new vscode.ThemeColor(
+            `patternColorization.color${result.pattern.colorIndex}.foreground`
+          )
+        );
+    item.contextValue = "occurrencePattern";
+    return item;
+  }
+
+  /**
+   * File node: file icon, relative folder and match count
+   */
+  private getFileTreeItem(file: FileOccurrences): vscode.TreeItem {
+    const uri = vscode.Uri.parse(file.uri);
+    const item = new vscode.TreeItem(
+      uri,
+      vscode.TreeItemCollapsibleState.Collapsed
+    );
+    const relativePath = vscode.workspace.asRelativePath(uri, false);
+    const folder = relativePath.includes("/")
+      ? relativePath.slice(0, relativePath.lastIndexOf("/"))
+      : "";
+    item.description = `${folder ? `${folder} • ` : ""}${file.count}`;
+    item.tooltip = `${vscode.workspace.asRelativePath(uri)}: ${
+      file.count
+    } match${file.count !== 1 ? "es" : ""}`;
+    item.contextValue = "occurrenceFile";
+    return item;
+  }
+
+  /**
+   * Line node: preview with highlighted matches; clicking opens the match
+   */
+  private getLineTreeItem(
+    file: FileOccurrences,
+    line: LineOccurrence
+  ): vscode.TreeItem {
+    const prefix = `${line.line + 1}: `;
+    const item = new vscode.TreeItem(
+      {
+        label: prefix + line.preview,
+        highlights: line.previewRanges.map(
+          ([start, end]): [number, number] => [
+            start + prefix.length,
+            end + prefix.length,
+          ]
+        ),
+      },
+      vscode.TreeItemCollapsibleState.None
+    );
+    item.description = line.count > 1 ? `(${line.count})` : undefined;
+    item.tooltip = line.preview;
+    item.command = {
+      command: "vscode.open",
+      title: "Open Occurrence",
+      arguments: [
+        vscode.Uri.parse(file.uri),
+        {
+          selection: new vscode.Range(
+            line.line,
+            line.column,
+            line.line,
+            line.endColumn
+          ),
+        },
+      ],
+    };
+    item.contextValue = "occurrenceLine";
+    return item;
+  }
+
+  /**
+   * Dispose of resources
+   */
+  public dispose(): void {
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,85 @@
+import * as vscode from "vscode";
+import { PatternTreeItem } from "../models/pattern";
+import { PatternManager } from "../services/patternManager";
+
+/**
+ * Lets patterns be reordered by drag and drop in the Patterns view. The order
+ * is the pattern priority; dropping on a group or section moves patterns to
+ * the end of it, dropping on a pattern moves them into that pattern's group.
+ */
+export class PatternDragAndDropController
+  implements vscode.TreeDragAndDropController<PatternTreeItem>
+{
+  private static readonly MIME_TYPE =
+    "application/vnd.code.tree.patterncolorizationview";
+
+  readonly dragMimeTypes = [PatternDragAndDropController.MIME_TYPE];
+  readonly dropMimeTypes = [PatternDragAndDropController.MIME_TYPE];
+
+  constructor(private patternManager: PatternManager) {}
+
+  /**
+   * Put the ids of the dragged patterns on the data transfer
+   */
+  public handleDrag(
+    source: readonly PatternTreeItem[],
+    dataTransfer: vscode.DataTransfer,
+    _token: vscode.CancellationToken
+  ): void {
+    const ids = source
+      .filter((item) => item.contextValue === "patternItem")
+      .map((item) => item.id);
+    if (ids.length > 0) {
+      dataTransfer.set(
+        PatternDragAndDropController.MIME_TYPE,
+        new vscode.DataTransferItem(ids)
+      );
+    }
+  }
+
+  /**
+   * Move the dropped patterns before the target pattern, or to the end of the
+   * target group or section
+   */
+  public async handleDrop(
+    target: PatternTreeItem | undefined,
+    dataTransfer: vscode.DataTransfer,
+    _token: vscode.CancellationToken
+  ): Promise<void> {
+    const ids: string[] | undefined = dataTransfer.get(
+      PatternDragAndDropController.MIME_TYPE
+    )?.value;
+    if (!ids || ids.length === 0 || !target?.scope) {
+      return;
+    }
+
+    let moved: number;
+    if (target.contextValue === "patternItem") {
+      moved = await this.patternManager.reorderPatterns(
+        ids,
+        target.scope,
+        target.id,
+        target.group
+      );
+    } else if (target.contextValue === "groupItem") {
+      moved = await this.patternManager.reorderPatterns(
+        ids,
+        target.scope,
+        undefined,
+        target.group
+      );
+    } else if (target.contextValue === "scopeSection") {
+      moved = await this.patternManager.reorderPatterns(ids, target.scope);
+    } else {
+      return;
+    }
+
+    if (moved < ids.length && !ids.includes(target.id)) {
+      vscode.window.showWarningMessage(
+        `${ids.length - moved} pattern${
+          ids.length - moved !== 1 ? "s were" : " was"
+        } not moved: the ${target.scope} patterns already contain the same text`
+      );
+    }
+  }
+}
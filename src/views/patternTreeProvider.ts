@@ -1,7 +1,24 @@
 import * as vscode from "vscode";
-import { Pattern, PatternTreeItem } from "../models/pattern";
+import {
+  CustomColor,
+  Pattern,
+  PatternKind,
+  PatternFilter,
+  PatternScope,
+  PatternStyle,
+  RulerLane,
+  PatternTreeItem,
+} from "../models/pattern";
 import { PatternManager } from "../services/patternManager";
-import { COLOR_PALETTE } from "../constants/colors";
+import { DecorationManager } from "../services/decorationManager";
+import { PatternMatch, PatternMatcher } from "../services/patternMatcher";
+import { ColorService } from "../services/colorService";
+import {
+  COLOR_PALETTE,
+  PATTERN_STYLES,
+  RULER_LANES,
+  TREE_MATCH_LIMIT,
+} from "../constants/colors";
 
 /**
  * Tree data provider for the Pattern Colorization view in Explorer
@@ -15,12 +32,34 @@ export class PatternTreeProvider
   readonly onDidChangeTreeData: vscode.Event<
     PatternTreeItem | undefined | null | void
   > = this._onDidChangeTreeData.event;
-
-  constructor(private patternManager: PatternManager) {
+  private _onDidChangeFilter = new vscode.EventEmitter<void>();
+  readonly onDidChangeFilter: vscode.Event<void> = this._onDidChangeFilter.event;
+  private matchesUpdateTimeout: NodeJS.Timeout | undefined;
+  private filter: PatternFilter | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private patternManager: PatternManager,
+    private decorationManager: DecorationManager
+  ) {
     // Listen for pattern changes and refresh the tree
     this.patternManager.onDidChangePatterns(() => {
       this.refresh();
     });
+
+    // Match counts and match items follow the active editor's highlighting
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor(() => this.refresh()),
+      this.decorationManager.onDidUpdateMatches((document) => {
+        if (document !== vscode.window.activeTextEditor?.document) {
+          return;
+        }
+        if (this.matchesUpdateTimeout) {
+          clearTimeout(this.matchesUpdateTimeout);
+        }
+        this.matchesUpdateTimeout = setTimeout(() => this.refresh(), 100);
+      })
+    );
   }
 
   /**
@@ -36,40 +75,61 @@ export class PatternTreeProvider
    * Get tree item representation
    */
   public getTreeItem(element: PatternTreeItem): vscode.TreeItem {
+    if (element.contextValue === "allPatterns") {
+      return this.getAllPatternsTreeItem(element);
+    }
+
+    if (element.contextValue === "scopeSection") {
+      return this.getSectionTreeItem(element);
+    }
+
+    if (element.contextValue === "matchItem") {
+      return this.getMatchTreeItem(element);
+    }
+
+    if (element.contextValue === "groupItem") {
+      return this.getGroupTreeItem(element);
+    }
+
+    // Patterns with matches in the active editor expand to list them
     const item = new vscode.TreeItem(
       element.label,
-      vscode.TreeItemCollapsibleState.None
+      element.matchCount
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None
     );
+    item.id = element.id;
 
     // Set description with improved formatting - no description for clean look
     item.description =
-      element.contextValue === "emptyItem" ? element.description : undefined;
+      element.contextValue === "emptyItem" || element.shadowed
+        ? element.description
+        : element.matchCount !== undefined
+        ? `${element.matchCount} match${element.matchCount !== 1 ? "es" : ""}`
+        : undefined;
     item.tooltip = this.createTooltip(element);
 
-    // Set context value for context menu
-    item.contextValue = element.contextValue;
+    // Set context value for context menu; pattern items carry their scope so
+    // the menu can offer moving to the other scope
+    item.contextValue =
+      element.contextValue === "patternItem" && element.scope
+        ? `patternItem.${element.scope}`
+        : element.contextValue;
 
     // No icons for clean appearance - let inline actions handle visibility
     item.iconPath = this.getIconPath(element);
 
-    // Add click behavior for pattern items
-    if (element.contextValue === "emptyItem") {
-      // Empty item shows help text but is not clickable
-      item.command = undefined;
-    } else if (element.contextValue === "patternItem") {
-      // Pattern items are clickable to toggle visibility
-      // Click on the item toggles pattern visibility
-      item.command = {
-        command: "patternColorization.togglePattern",
-        title: "Toggle Pattern",
-        arguments: [element.id],
-      };
+    // The checkbox enables and disables the pattern
+    if (element.contextValue === "patternItem") {
+      item.checkboxState = element.enabled
+        ? vscode.TreeItemCheckboxState.Checked
+        : vscode.TreeItemCheckboxState.Unchecked;
     }
 
-    // Add visual styling for disabled patterns
-    if (element.contextValue === "patternItem" && !element.enabled) {
-      // Use a resource URI to apply subtle styling to disabled patterns
-      item.resourceUri = vscode.Uri.parse(`disabled-pattern:${element.id}`);
+    // Add visual styling for overridden patterns
+    if (element.contextValue === "patternItem" && element.shadowed) {
+      // Use a resource URI to apply subtle styling to overridden patterns
+      item.resourceUri = vscode.Uri.parse(`overridden-pattern:${element.id}`);
     }
 
     // Add visual styling for patterns when global highlighting is disabled
@@ -86,41 +146,205 @@ export class PatternTreeProvider
     // Add accessibility properties
     item.accessibilityInformation = {
       label: this.getAccessibilityLabel(element),
-      role: element.contextValue === "emptyItem" ? "text" : "button",
+      role: element.contextValue === "emptyItem" ? "text" : "checkbox",
     };
 
     return item;
   }
 
   /**
-   * Get children of an element (patterns in this case)
+   * Create the root tree item whose checkbox turns all highlighting on or off
+   */
+  private getAllPatternsTreeItem(element: PatternTreeItem): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      element.label,
+      vscode.TreeItemCollapsibleState.Expanded
+    );
+    item.id = element.id;
+    item.description = element.description;
+    item.contextValue = element.contextValue;
+    item.checkboxState = element.globalEnabled
+      ? vscode.TreeItemCheckboxState.Checked
+      : vscode.TreeItemCheckboxState.Unchecked;
+    item.tooltip = element.globalEnabled
+      ? "Uncheck to turn off all pattern highlighting"
+      : "Check to turn pattern highlighting back on";
+    item.accessibilityInformation = {
+      label: `All patterns, highlighting ${
+        element.globalEnabled ? "on" : "off"
+      }, ${element.description}`,
+      role: "checkbox",
+    };
+    return item;
+  }
+
+  /**
+   * Checkbox state of a section or group: checked when all its patterns are
+   * enabled
+   */
+  private getContainerCheckboxState(
+    element: PatternTreeItem
+  ): vscode.TreeItemCheckboxState {
+    return element.enabled
+      ? vscode.TreeItemCheckboxState.Checked
+      : vscode.TreeItemCheckboxState.Unchecked;
+  }
+
+  /**
+   * Create the tree item for a user/workspace section
+   */
+  private getSectionTreeItem(element: PatternTreeItem): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      element.label,
+      vscode.TreeItemCollapsibleState.Expanded
+    );
+    item.id = element.id;
+    item.description = element.description;
+    item.contextValue = element.contextValue;
+    if (
+      this.patternManager
+        .getPatternsByScope(element.scope!)
+        .some((p) => this.matchesFilter(p))
+    ) {
+      item.checkboxState = this.getContainerCheckboxState(element);
+    }
+    item.iconPath = new vscode.ThemeIcon(
+      element.scope === "user" ? "account" : "folder"
+    );
+    item.tooltip = new vscode.MarkdownString(
+      element.scope === "user"
+        ? "**User patterns** are available in every workspace.\n\nA workspace pattern with the same text takes precedence."
+        : "**Workspace patterns** apply to this workspace only and take precedence over user patterns with the same text."
+    );
+    item.accessibilityInformation = {
+      label: `${element.label} patterns section, ${element.description}`,
+      role: "treeitem",
+    };
+    return item;
+  }
+
+  /**
+   * Create the tree item for a pattern group
+   */
+  private getGroupTreeItem(element: PatternTreeItem): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      element.label,
+      vscode.TreeItemCollapsibleState.Expanded
+    );
+    item.id = element.id;
+    item.description = element.description;
+    item.contextValue = element.contextValue;
+    item.checkboxState = this.getContainerCheckboxState(element);
+
+    // Groups with a color scheme show its first color
+    const scheme = this.patternManager
+      .getGroups(element.scope!)
+      .find((group) => group.name === element.group)?.colorScheme;
+    item.iconPath = new vscode.ThemeIcon(
+      "symbol-folder",
+      scheme
+        ? new vscode.ThemeColor(
+            `patternColorization.color${scheme[0]}.foreground`
+          )
+        : undefined
+    );
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown("**");
+    tooltip.appendText(element.label);
+    tooltip.appendMarkdown(
+      `** group: ${element.description}\n\nDrag patterns onto the group to add them.`
+    );
+    item.tooltip = tooltip;
+    item.accessibilityInformation = {
+      label: `${element.label} group, ${element.description}`,
+      role: "treeitem",
+    };
+    return item;
+  }
+
+  /**
+   * Create the tree item for a match in the active editor; clicking it
+   * reveals the match
+   */
+  private getMatchTreeItem(element: PatternTreeItem): vscode.TreeItem {
+    const match = element.match!;
+    const prefix = `${match.line + 1}: `;
+    const item = new vscode.TreeItem(
+      {
+        label: prefix + match.preview,
+        highlights: [
+          [
+            match.previewRange[0] + prefix.length,
+            match.previewRange[1] + prefix.length,
+          ],
+        ],
+      },
+      vscode.TreeItemCollapsibleState.None
+    );
+    item.id = element.id;
+    item.contextValue = element.contextValue;
+    item.tooltip = `Line ${match.line + 1}, column ${match.character + 1}`;
+    item.command = {
+      command: "vscode.open",
+      title: "Reveal Match",
+      arguments: [
+        vscode.Uri.parse(match.uri),
+        {
+          selection: new vscode.Range(
+            match.line,
+            match.character,
+            match.endLine,
+            match.endCharacter
+          ),
+        },
+      ],
+    };
+    item.accessibilityInformation = {
+      label: `Match on line ${match.line + 1}: ${match.preview}`,
+      role: "button",
+    };
+    return item;
+  }
+
+  /**
+   * Get children of an element (sections at the root, patterns in a section,
+   * matches in the active editor under a pattern)
    */
   public getChildren(
     element?: PatternTreeItem
   ): vscode.ProviderResult<PatternTreeItem[]> {
     if (!element) {
-      // Return root level items (all patterns)
-      return this.getPatternItems();
+      // Return the "All Patterns" root, or the empty state
+      return this.getRootItems();
+    }
+
+    if (element.contextValue === "allPatterns") {
+      return this.getSectionItems();
+    }
+
+    if (element.contextValue === "scopeSection" && element.scope) {
+      return [
+        ...this.getGroupItems(element.scope),
+        ...this.getPatternItems(element.scope),
+      ];
+    }
+
+    if (element.contextValue === "groupItem" && element.scope) {
+      return this.getPatternItems(element.scope, element.group);
+    }
+
+    if (element.contextValue === "patternItem") {
+      return this.getMatchItems(element);
     }
 
-    // No children for pattern items
     return [];
   }
 
   /**
-   * Get pattern items for the tree
+   * Get the root level items: the "All Patterns" item, or the empty state
    */
-  private getPatternItems(): PatternTreeItem[] {
+  private getRootItems(): PatternTreeItem[] {
     const patterns = this.patternManager.getPatterns();
-    const config = this.patternManager.getConfig();
-
-    // Debug: Log patterns being processed
-    console.log(
-      "TreeProvider: Processing patterns:",
-      patterns.length,
-      patterns
-    );
-
     if (patterns.length === 0) {
       console.log("TreeProvider: No patterns found, showing empty state");
       return [
@@ -135,10 +359,126 @@ export class PatternTreeProvider
       ];
     }
 
-    // Keep patterns in their original creation order - no dynamic sorting
-    const patternItems = patterns
-      .sort((a, b) => a.createdAt - b.createdAt)
-      .map((pattern) => this.createTreeItem(pattern, config.enabled));
+    if (this.filter && !patterns.some((p) => this.matchesFilter(p))) {
+      return [
+        {
+          id: "empty",
+          label: "No patterns match the filter",
+          description: this.getFilterDescription() || "",
+          colorIndex: 0,
+          enabled: false,
+          contextValue: "emptyItem",
+        },
+      ];
+    }
+
+    const config = this.patternManager.getConfig();
+    const enabled = patterns.filter((p) => p.enabled).length;
+    return [
+      {
+        id: "all",
+        label: "All Patterns",
+        description: config.enabled
+          ? `${enabled} of ${patterns.length} enabled`
+          : "highlighting off",
+        colorIndex: 0,
+        enabled: config.enabled,
+        contextValue: "allPatterns",
+        globalEnabled: config.enabled,
+      },
+    ];
+  }
+
+  /**
+   * Get the sections under "All Patterns": one per scope
+   */
+  private getSectionItems(): PatternTreeItem[] {
+    const sections: Array<{ scope: PatternScope; label: string }> = [
+      { scope: "workspace", label: "Workspace" },
+      { scope: "user", label: "User" },
+    ];
+
+    const activeSet = this.patternManager.getActiveSet();
+
+    return sections.map(({ scope, label }) => {
+      const patterns = this.patternManager.getPatternsByScope(scope);
+      const count = patterns.length;
+      const shownPatterns = patterns.filter((p) => this.matchesFilter(p));
+      const shown = shownPatterns.length;
+      const countText = this.filter
+        ? `${shown} of ${count} pattern${count !== 1 ? "s" : ""}`
+        : `${count} pattern${count !== 1 ? "s" : ""}`;
+      return {
+        id: `section:${scope}`,
+        label,
+        description:
+          scope === "workspace"
+            ? `${activeSet.name} • ${countText}`
+            : countText,
+        colorIndex: 0,
+        // The checkbox controls only the patterns shown under the filter
+        enabled: shownPatterns.every((p) => p.enabled),
+        contextValue: "scopeSection",
+        scope,
+      };
+    });
+  }
+
+  /**
+   * Get the group items of one scope, listed before the ungrouped patterns
+   */
+  private getGroupItems(scope: PatternScope): PatternTreeItem[] {
+    const patterns = this.patternManager.getPatternsByScope(scope);
+    const groups = this.patternManager
+      .getGroups(scope)
+      .filter((group) =>
+        patterns.some((p) => p.group === group.name && this.matchesFilter(p))
+      );
+    return groups.map((group) => {
+      const members = patterns.filter((p) => p.group === group.name);
+      const enabled = members.filter((p) => p.enabled).length;
+      return {
+        id: `group:${scope}:${group.name}`,
+        label: group.name,
+        description:
+          enabled === members.length
+            ? `${members.length} pattern${members.length !== 1 ? "s" : ""}`
+            : `${enabled} of ${members.length} enabled`,
+        colorIndex: group.colorScheme?.[0] ?? 0,
+        enabled: members
+          .filter((p) => this.matchesFilter(p))
+          .every((p) => p.enabled),
+        contextValue: "groupItem",
+        scope,
+        group: group.name,
+      };
+    });
+  }
+
+  /**
+   * Get pattern items of one scope for the tree: the patterns of a group, or
+   * the ungrouped ones when no group is given
+   */
+  private getPatternItems(
+    scope: PatternScope,
+    group?: string
+  ): PatternTreeItem[] {
+    const patterns = this.patternManager
+      .getPatternsByScope(scope)
+      .filter((p) => p.group === group && this.matchesFilter(p));
+    const config = this.patternManager.getConfig();
+
+    // Debug: Log patterns being processed
+    console.log(
+      "TreeProvider: Processing patterns:",
+      patterns.length,
+      patterns
+    );
+
+    // Patterns are listed in priority order, which drag and drop changes
+    const patternItems = patterns.map((pattern) =>
+      this.createTreeItem(pattern, config.enabled)
+    );
 
     console.log(
       "TreeProvider: Created pattern items:",
@@ -148,6 +488,81 @@ export class PatternTreeProvider
     return patternItems;
   }
 
+  /**
+   * Get the match items of a pattern in the active editor
+   */
+  private getMatchItems(element: PatternTreeItem): PatternTreeItem[] {
+    const pattern = this.getPatternFromItem(element);
+    const document = vscode.window.activeTextEditor?.document;
+    const matches = pattern ? this.getActiveEditorMatches(pattern) : undefined;
+    if (!pattern || !document || !matches) {
+      return [];
+    }
+
+    const items = matches
+      .slice(0, TREE_MATCH_LIMIT)
+      .map((match, index): PatternTreeItem => {
+        const range = new vscode.Range(
+          document.positionAt(match.start),
+          document.positionAt(match.end)
+        );
+        const lineText = document.lineAt(range.start.line).text;
+        const indent = lineText.length - lineText.trimStart().length;
+        const previewStart = Math.max(indent, range.start.character - 40);
+        const preview = lineText.slice(previewStart, previewStart + 200);
+        const matchEnd = range.isSingleLine
+          ? range.end.character
+          : lineText.length;
+
+        return {
+          id: `${pattern.id}:match:${index}`,
+          label: preview,
+          description: "",
+          colorIndex: pattern.colorIndex,
+          enabled: pattern.enabled,
+          contextValue: "matchItem",
+          match: {
+            uri: document.uri.toString(),
+            line: range.start.line,
+            character: range.start.character,
+            endLine: range.end.line,
+            endCharacter: range.end.character,
+            preview,
+            previewRange: [
+              range.start.character - previewStart,
+              Math.min(matchEnd - previewStart, preview.length),
+            ],
+          },
+        };
+      });
+
+    if (matches.length > TREE_MATCH_LIMIT) {
+      items.push({
+        id: `${pattern.id}:match:more`,
+        label: `${matches.length - TREE_MATCH_LIMIT} more matches not shown`,
+        description: "",
+        colorIndex: pattern.colorIndex,
+        enabled: pattern.enabled,
+        contextValue: "emptyItem",
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * Matches of a pattern in the active editor, as highlighted by the
+   * decoration manager. Returns undefined when no editor is active or its
+   * document is not fully matched, such as large files that are paused or
+   * still being matched in the background.
+   */
+  private getActiveEditorMatches(pattern: Pattern): PatternMatch[] | undefined {
+    const document = vscode.window.activeTextEditor?.document;
+    return document
+      ? this.decorationManager.getPatternMatches(document, pattern)
+      : undefined;
+  }
+
   /**
    * Create a tree item from a pattern
    */
@@ -156,23 +571,33 @@ export class PatternTreeProvider
     globalEnabled: boolean
   ): PatternTreeItem {
     // Clean pattern text without any symbols or indicators
-    let patternText = pattern.text;
+    let patternText = PatternMatcher.formatPattern(pattern);
     if (patternText.length > 40) {
-      patternText = pattern.text.substring(0, 37) + "...";
+      patternText = patternText.substring(0, 37) + "...";
     }
 
     // Simple label with just the pattern text - no symbols
     const label = patternText;
 
+    const shadowed = this.patternManager.isShadowed(pattern);
+
     const item: PatternTreeItem = {
       id: pattern.id,
       label: label,
-      description: "", // Empty description for clean look
+      // Empty description for clean look, except to explain overrides
+      description: shadowed ? "overridden by workspace" : "",
       colorIndex: pattern.colorIndex,
+      customColor: pattern.customColor,
       enabled: pattern.enabled,
       contextValue: "patternItem",
       // Add global state information
       globalEnabled: globalEnabled,
+      scope: pattern.scope,
+      shadowed,
+      group: pattern.group,
+      matchCount: shadowed
+        ? undefined
+        : this.getActiveEditorMatches(pattern)?.length,
     };
 
     return item;
@@ -194,18 +619,29 @@ export class PatternTreeProvider
     }
 
     const config = this.patternManager.getConfig();
-    const color = COLOR_PALETTE[pattern.colorIndex];
-    const isActive = config.enabled && pattern.enabled;
-
-    let label = `Pattern: ${pattern.text}. Uses ${color.name} highlighting color.`;
+    const color = ColorService.getColorDefinition(pattern);
+    const shadowed = this.patternManager.isShadowed(pattern);
+    const isActive = config.enabled && pattern.enabled && !shadowed;
+
+    let label = `${
+      pattern.scope === "user" ? "User" : "Workspace"
+    } ${
+      pattern.kind === "regex" ? "regular expression pattern" : "pattern"
+    }: ${PatternMatcher.formatPattern(pattern)}. Uses ${
+      color.name
+    } highlighting color.`;
     if (pattern.description) {
       label += ` Description: ${pattern.description}.`;
     }
     label += ` Status: ${
-      isActive ? "enabled and actively highlighting" : "disabled"
+      isActive
+        ? "enabled and actively highlighting"
+        : shadowed
+        ? "overridden by a workspace pattern with the same text"
+        : "disabled"
     }.`;
     label +=
-      " Click to toggle, use eye button to enable/disable, right-click for more options.";
+      " Use the checkbox to enable or disable, expand to list matches, right-click for more options.";
 
     return label;
   }
@@ -236,20 +672,45 @@ export class PatternTreeProvider
       return new vscode.MarkdownString("$(error) Pattern not found");
     }
 
-    const color = COLOR_PALETTE[pattern.colorIndex];
+    const color = ColorService.getColorDefinition(pattern);
     const config = this.patternManager.getConfig();
-    const isActive = config.enabled && pattern.enabled;
+    const shadowed = this.patternManager.isShadowed(pattern);
+    const isActive = config.enabled && pattern.enabled && !shadowed;
 
+    // Pattern text and descriptions can come from shared files, so they are
+    // added as plain text and the tooltip is not trusted to run commands
     const tooltip = new vscode.MarkdownString();
-    tooltip.isTrusted = true;
+    tooltip.supportThemeIcons = true;
 
     // Pattern info without color indicators
-    tooltip.appendMarkdown(`**${pattern.text}**\n\n`);
+    tooltip.appendMarkdown("**");
+    tooltip.appendText(PatternMatcher.formatPattern(pattern));
+    tooltip.appendMarkdown("**\n\n");
+
+    if (pattern.kind === "regex") {
+      tooltip.appendMarkdown(
+        `**Type:** $(regex) Regular expression${
+          pattern.flags ? ` (flags: \`${pattern.flags}\`)` : ""
+        }\n`
+      );
+    }
+
+    tooltip.appendMarkdown(
+      pattern.scope === "user"
+        ? "**Scope:** $(account) User - available in every workspace\n"
+        : "**Scope:** $(folder) Workspace - this workspace only\n"
+    );
 
     // Color information with visual context
+    const style = PATTERN_STYLES.find(
+      (s) => s.id === (pattern.style || "background")
+    )!;
     tooltip.appendMarkdown(`**Color:** ${color.name}\n`);
+    tooltip.appendMarkdown(`**Style:** $(${style.icon}) ${style.name}\n`);
     tooltip.appendMarkdown(
-      `*This pattern uses ${color.name.toLowerCase()} background highlighting in your files*\n\n`
+      pattern.customColor
+        ? "*This pattern uses a custom color in your files*\n\n"
+        : `*This pattern uses ${color.name.toLowerCase()} highlighting in your files*\n\n`
     );
 
     // Status with clear indicators
@@ -261,25 +722,37 @@ export class PatternTreeProvider
       tooltip.appendMarkdown(
         "**Status:** $(eye-closed) Highlighting disabled globally - Use the central toggle to enable\n"
       );
+    } else if (shadowed) {
+      tooltip.appendMarkdown(
+        "**Status:** $(layers) Overridden - A workspace pattern with the same text takes precedence\n"
+      );
     } else {
       tooltip.appendMarkdown(
-        "**Status:** $(eye-closed) Pattern disabled - Click eye button to enable\n"
+        "**Status:** $(eye-closed) Pattern disabled - Check its checkbox to enable\n"
       );
     }
 
     // Description if available
     if (pattern.description) {
-      tooltip.appendMarkdown(`**Description:** ${pattern.description}\n`);
+      tooltip.appendMarkdown("**Description:** ");
+      tooltip.appendText(pattern.description);
+      tooltip.appendMarkdown("\n");
     }
 
+    const effective = PatternMatcher.resolveConfig(pattern, config);
+    const source = (override: boolean | undefined) =>
+      override === undefined ? "global setting" : "pattern override";
+
     tooltip.appendMarkdown("\n**Settings:**\n");
     tooltip.appendMarkdown(
       `- $(case-sensitive) Case Sensitive: ${
-        config.caseSensitive ? "Yes" : "No"
-      }\n`
+        effective.caseSensitive ? "Yes" : "No"
+      } *(${source(pattern.caseSensitive)})*\n`
     );
     tooltip.appendMarkdown(
-      `- $(whole-word) Whole Word: ${config.wholeWord ? "Yes" : "No"}\n`
+      `- $(whole-word) Whole Word: ${
+        effective.wholeWord ? "Yes" : "No"
+      } *(${source(pattern.wholeWord)})*\n`
     );
 
     tooltip.appendMarkdown(
@@ -289,12 +762,12 @@ export class PatternTreeProvider
     // Action hints with new simplified interaction model
     tooltip.appendMarkdown("---\n");
     tooltip.appendMarkdown("**Actions:**\n");
-    tooltip.appendMarkdown("• $(eye) **Eye Button** - Toggle pattern on/off\n");
+    tooltip.appendMarkdown("• $(check) **Checkbox** - Turn the pattern on or off\n");
     tooltip.appendMarkdown(
-      "• $(mouse-pointer) **Click Pattern** - Toggle pattern visibility\n"
+      "• $(list-tree) **Expand** - List its matches in the active editor\n"
     );
     tooltip.appendMarkdown(
-      "• $(menu) **Right-click** - Edit, delete, or change color\n"
+      "• $(menu) **Right-click** - Edit, delete, change color or matching options\n"
     );
 
     return tooltip;
@@ -303,7 +776,9 @@ export class PatternTreeProvider
   /**
    * Get appropriate icon for the pattern item
    */
-  private getIconPath(item: PatternTreeItem): vscode.ThemeIcon | undefined {
+  private getIconPath(
+    item: PatternTreeItem
+  ): vscode.ThemeIcon | { light: vscode.Uri; dark: vscode.Uri } | undefined {
     if (item.contextValue === "emptyItem") {
       return new vscode.ThemeIcon(
         "lightbulb",
@@ -313,6 +788,13 @@ export class PatternTreeProvider
 
     // For pattern items, show colored circle when pattern is enabled and global highlighting is on
     if (item.contextValue === "patternItem") {
+      if (item.enabled && item.customColor) {
+        return {
+          light: ColorService.createIconUri(item.customColor.light),
+          dark: ColorService.createIconUri(item.customColor.dark),
+        };
+      }
+
       if (item.enabled) {
         return new vscode.ThemeIcon(
           "circle-filled",
@@ -331,6 +813,155 @@ export class PatternTreeProvider
     return undefined;
   }
 
+  /**
+   * Narrow the tree to the patterns matching a filter, or show all patterns
+   * again when no filter is given
+   */
+  public setFilter(filter: PatternFilter | undefined): void {
+    this.filter =
+      filter && Object.values(filter).some((value) => value !== undefined)
+        ? filter
+        : undefined;
+    vscode.commands.executeCommand(
+      "setContext",
+      "patternColorization.filterActive",
+      !!this.filter
+    );
+    this._onDidChangeFilter.fire();
+    this.refresh();
+  }
+
+  /**
+   * Get the active filter
+   */
+  public getFilter(): PatternFilter | undefined {
+    return this.filter && { ...this.filter };
+  }
+
+  /**
+   * Short description of the active filter for the view description
+   */
+  public getFilterDescription(): string | undefined {
+    if (!this.filter) {
+      return undefined;
+    }
+
+    const { text, color, enabled, group } = this.filter;
+    const parts: string[] = [];
+    if (text !== undefined) {
+      parts.push(`"${text}"`);
+    }
+    if (color !== undefined) {
+      parts.push(color === "custom" ? "custom color" : COLOR_PALETTE[color].name);
+    }
+    if (enabled !== undefined) {
+      parts.push(enabled ? "enabled" : "disabled");
+    }
+    if (group !== undefined) {
+      parts.push(`group ${group}`);
+    }
+    return `filtered: ${parts.join(", ")}`;
+  }
+
+  /**
+   * Whether a pattern is shown under the active filter
+   */
+  private matchesFilter(pattern: Pattern): boolean {
+    if (!this.filter) {
+      return true;
+    }
+
+    const { text, color, enabled, group } = this.filter;
+    if (text !== undefined) {
+      const query = text.toLowerCase();
+      if (
+        !pattern.text.toLowerCase().includes(query) &&
+        !pattern.description?.toLowerCase().includes(query)
+      ) {
+        return false;
+      }
+    }
+    if (
+      color !== undefined &&
+      (color === "custom"
+        ? !pattern.customColor
+        : !!pattern.customColor || pattern.colorIndex !== color)
+    ) {
+      return false;
+    }
+    if (enabled !== undefined && pattern.enabled !== enabled) {
+      return false;
+    }
+    return group === undefined || pattern.group === group;
+  }
+
+  /**
+   * Apply checkbox changes. Patterns are enabled or disabled, groups and
+   * sections apply the state to all their patterns, and "All Patterns" turns
+   * highlighting on or off. Checking an item that is part of a multi-selection
+   * applies the state to every selected item.
+   */
+  public async handleCheckboxChange(
+    changes: ReadonlyArray<[PatternTreeItem, vscode.TreeItemCheckboxState]>,
+    selection: readonly PatternTreeItem[]
+  ): Promise<void> {
+    const enable = new Set<string>();
+    const disable = new Set<string>();
+
+    for (const [element, state] of changes) {
+      const checked = state === vscode.TreeItemCheckboxState.Checked;
+      if (element.contextValue === "allPatterns") {
+        await vscode.commands.executeCommand(
+          checked
+            ? "patternColorization.enableHighlighting"
+            : "patternColorization.disableHighlighting"
+        );
+        continue;
+      }
+
+      const targets = selection.some((selected) => selected.id === element.id)
+        ? selection
+        : [element];
+      targets
+        .flatMap((target) => this.getCheckboxPatternIds(target))
+        .forEach((id) => (checked ? enable : disable).add(id));
+    }
+
+    if (enable.size > 0) {
+      await this.patternManager.updatePatterns(Array.from(enable), {
+        enabled: true,
+      });
+    }
+    if (disable.size > 0) {
+      await this.patternManager.updatePatterns(Array.from(disable), {
+        enabled: false,
+      });
+    }
+  }
+
+  /**
+   * Ids of the patterns a checkbox controls; group and section checkboxes
+   * leave patterns hidden by the filter alone
+   */
+  private getCheckboxPatternIds(item: PatternTreeItem): string[] {
+    switch (item.contextValue) {
+      case "patternItem":
+        return [item.id];
+      case "groupItem":
+        return this.patternManager
+          .getPatternsByScope(item.scope!)
+          .filter((p) => p.group === item.group && this.matchesFilter(p))
+          .map((p) => p.id);
+      case "scopeSection":
+        return this.patternManager
+          .getPatternsByScope(item.scope!)
+          .filter((p) => this.matchesFilter(p))
+          .map((p) => p.id);
+      default:
+        return [];
+    }
+  }
+
   /**
    * Get the pattern associated with a tree item
    */
@@ -382,8 +1013,11 @@ export class PatternTreeProvider
   /**
    * Start pattern addition by directly showing input box
    */
-  public async startInlineAdd(): Promise<void> {
-    await this.showInlineInputBox();
+  public async startInlineAdd(
+    kind: PatternKind = "literal",
+    scope: PatternScope = "workspace"
+  ): Promise<void> {
+    await this.showInlineInputBox(undefined, kind, scope);
   }
 
   /**
@@ -401,35 +1035,82 @@ export class PatternTreeProvider
   /**
    * Show input box for pattern editing
    */
-  private async showInlineInputBox(patternId?: string): Promise<void> {
+  private async showInlineInputBox(
+    patternId?: string,
+    kind: PatternKind = "literal",
+    scope: PatternScope = "workspace"
+  ): Promise<void> {
     const existingPattern = patternId
       ? this.patternManager.getPatterns().find((p) => p.id === patternId)
       : null;
     const isEditing = !!existingPattern;
+    const patternKind = existingPattern?.kind || kind;
+    const patternScope = existingPattern?.scope || scope;
+    const isRegex = patternKind === "regex";
 
     const patternText = await vscode.window.showInputBox({
-      title: isEditing ? "Edit Pattern" : "Add New Pattern",
-      prompt: isEditing
+      title:
+        (isEditing
+          ? isRegex
+            ? "Edit Regex Pattern"
+            : "Edit Pattern"
+          : isRegex
+          ? "Add New Regex Pattern"
+          : "Add New Pattern") + (patternScope === "user" ? " (User)" : ""),
+      prompt: isRegex
+        ? "Enter a regular expression, optionally as /expression/flags (flags: i, m, s, u)"
+        : isEditing
         ? "Edit the pattern text"
         : "Enter the text pattern you want to highlight",
-      value: existingPattern?.text || "",
-      placeHolder: "e.g., TODO, FIXME, BUG, or any word/phrase",
+      value: existingPattern
+        ? PatternMatcher.formatPattern(existingPattern)
+        : "",
+      placeHolder: isRegex
+        ? "e.g., ERR-\\d{4} or /user_[a-f0-9]+/i"
+        : "e.g., TODO, FIXME, BUG, or any word/phrase",
       ignoreFocusOut: false,
       validateInput: (value) => {
         if (!value || !value.trim()) {
           return "Pattern text cannot be empty";
         }
 
+        if (isRegex) {
+          const { source, flags } = PatternMatcher.parseRegexInput(value);
+          const error = PatternMatcher.validateRegex(source, flags);
+          if (error) {
+            return error;
+          }
+
+          if (
+            this.patternManager.findDuplicate(
+              source,
+              "regex",
+              patternId,
+              patternScope
+            )
+          ) {
+            return `Pattern "${value.trim()}" already exists`;
+          }
+
+          if (source.length > 500) {
+            return "Regular expression too long (max 500 characters)";
+          }
+
+          return null;
+        }
+
         if (value.trim().length < 2) {
           return "Pattern must be at least 2 characters long";
         }
 
-        const patterns = this.patternManager.getPatterns();
-        const existing = patterns.find(
-          (p) =>
-            p.id !== patternId && p.text.toLowerCase() === value.toLowerCase()
-        );
-        if (existing) {
+        if (
+          this.patternManager.findDuplicate(
+            value,
+            "literal",
+            patternId,
+            patternScope
+          )
+        ) {
           return `Pattern "${value}" already exists`;
         }
 
@@ -442,20 +1123,32 @@ export class PatternTreeProvider
     });
 
     if (patternText) {
+      const { source, flags } = isRegex
+        ? PatternMatcher.parseRegexInput(patternText)
+        : { source: patternText.trim(), flags: "" };
+      const displayText = isRegex ? `/${source}/${flags}` : source;
+
       if (isEditing && existingPattern) {
         // Update existing pattern
         await this.patternManager.updatePattern(existingPattern.id, {
-          text: patternText.trim(),
+          text: source,
+          flags: isRegex ? flags || undefined : undefined,
         });
         vscode.window.showInformationMessage(
-          `Pattern updated to "${patternText.trim()}"`
+          `Pattern updated to "${displayText}"`
         );
       } else {
         // Create new pattern
-        await this.patternManager.addPattern(patternText.trim());
-        vscode.window.showInformationMessage(
-          `Pattern "${patternText.trim()}" added successfully`
+        const pattern = await this.patternManager.addPattern(
+          source,
+          undefined,
+          { kind: patternKind, flags, scope: patternScope }
         );
+        if (pattern) {
+          vscode.window.showInformationMessage(
+            `Pattern "${displayText}" added successfully`
+          );
+        }
       }
     }
   }
@@ -465,29 +1158,62 @@ export class PatternTreeProvider
   /**
    * Show color selection dialog
    */
-  public async showColorSelection(patternId: string): Promise<void> {
-    const pattern = this.patternManager
+  public async showColorSelection(patternIds: string[]): Promise<void> {
+    const patterns = this.patternManager
       .getPatterns()
-      .find((p) => p.id === patternId);
-    if (!pattern) {
+      .filter((p) => patternIds.includes(p.id));
+    if (patterns.length === 0) {
       return;
     }
 
+    // The first pattern provides the current color
+    const pattern = patterns[0];
+
     // Create color options without color indicators
-    const colorOptions = COLOR_PALETTE.map((color, index) => ({
+    const colorOptions: Array<
+      vscode.QuickPickItem & { colorIndex?: number; custom?: boolean }
+    > = COLOR_PALETTE.map((color, index) => ({
       label: color.name,
-      description: index === pattern.colorIndex ? "(current)" : "",
+      description:
+        !pattern.customColor && index === pattern.colorIndex ? "(current)" : "",
       colorIndex: index,
     }));
+    colorOptions.push(
+      { label: "", kind: vscode.QuickPickItemKind.Separator },
+      {
+        label: "$(symbol-color) Custom Color...",
+        description: pattern.customColor
+          ? `${pattern.customColor.light} / ${pattern.customColor.dark} (current)`
+          : "Enter hex colors for light and dark themes",
+        custom: true,
+      }
+    );
 
     const selected = await vscode.window.showQuickPick(colorOptions, {
-      placeHolder: `Select a color for pattern "${pattern.text}"`,
+      placeHolder:
+        patterns.length === 1
+          ? `Select a color for pattern "${PatternMatcher.formatPattern(
+              pattern
+            )}"`
+          : `Select a color for ${patterns.length} patterns`,
       ignoreFocusOut: true,
     });
 
-    if (selected && selected.colorIndex !== pattern.colorIndex) {
-      await this.patternManager.updatePattern(patternId, {
+    if (selected?.custom) {
+      const customColor = await this.promptCustomColor(pattern.customColor);
+      if (customColor) {
+        await this.updateColor(patterns, { customColor });
+      }
+    } else if (
+      selected &&
+      selected.colorIndex !== undefined &&
+      patterns.some(
+        (p) => selected.colorIndex !== p.colorIndex || p.customColor
+      )
+    ) {
+      await this.updateColor(patterns, {
         colorIndex: selected.colorIndex,
+        customColor: undefined,
       });
     }
 
@@ -495,13 +1221,251 @@ export class PatternTreeProvider
     this.refresh();
   }
 
+  /**
+   * Apply a color to one pattern, or to several as a single undoable step
+   */
+  private async updateColor(
+    patterns: Pattern[],
+    updates: Partial<Pattern>
+  ): Promise<void> {
+    if (patterns.length === 1) {
+      await this.patternManager.updatePattern(patterns[0].id, updates);
+    } else {
+      await this.patternManager.updatePatterns(
+        patterns.map((p) => p.id),
+        updates
+      );
+    }
+  }
+
+  /**
+   * Ask for a custom color as hex values for light and dark themes
+   */
+  private async promptCustomColor(
+    current?: CustomColor
+  ): Promise<CustomColor | undefined> {
+    const validateInput = (value: string) =>
+      ColorService.isValidHex(value)
+        ? null
+        : "Enter a hex color such as #FF8800 or #F80";
+
+    const light = await vscode.window.showInputBox({
+      title: "Custom Color (1/2)",
+      prompt: "Highlight color for light themes",
+      value: current?.light || "",
+      placeHolder: "#RRGGBB",
+      ignoreFocusOut: true,
+      validateInput,
+    });
+    if (light === undefined) {
+      return undefined;
+    }
+
+    const dark = await vscode.window.showInputBox({
+      title: "Custom Color (2/2)",
+      prompt: "Highlight color for dark and high contrast themes",
+      value: current?.dark || ColorService.normalizeHex(light),
+      placeHolder: "#RRGGBB",
+      ignoreFocusOut: true,
+      validateInput,
+    });
+    if (dark === undefined) {
+      return undefined;
+    }
+
+    return {
+      light: ColorService.normalizeHex(light),
+      dark: ColorService.normalizeHex(dark),
+    };
+  }
+
+  /**
+   * Show matching option overrides (case sensitivity, whole word) for a pattern
+   */
+  public async showMatchingOptions(patternId: string): Promise<void> {
+    const pattern = this.patternManager
+      .getPatterns()
+      .find((p) => p.id === patternId);
+    if (!pattern) {
+      return;
+    }
+
+    const config = this.patternManager.getConfig();
+    const describe = (override: boolean | undefined, global: boolean) =>
+      override === undefined
+        ? `Use global setting (${global ? "Yes" : "No"})`
+        : override
+        ? "Yes"
+        : "No";
+
+    const options: Array<
+      vscode.QuickPickItem & { key: "caseSensitive" | "wholeWord" }
+    > = [
+      {
+        label: "$(case-sensitive) Case Sensitive",
+        description: describe(pattern.caseSensitive, config.caseSensitive),
+        key: "caseSensitive",
+      },
+      {
+        label: "$(whole-word) Whole Word",
+        description: describe(pattern.wholeWord, config.wholeWord),
+        key: "wholeWord",
+      },
+    ];
+
+    const option = await vscode.window.showQuickPick(options, {
+      placeHolder: `Matching options for "${PatternMatcher.formatPattern(
+        pattern
+      )}"`,
+      ignoreFocusOut: true,
+    });
+    if (!option) {
+      return;
+    }
+
+    const current = pattern[option.key];
+    const values: Array<vscode.QuickPickItem & { value: boolean | undefined }> =
+      [
+        {
+          label: "Use global setting",
+          description: `${config[option.key] ? "Yes" : "No"}${
+            current === undefined ? " (current)" : ""
+          }`,
+          value: undefined,
+        },
+        {
+          label: "Yes",
+          description: current === true ? "(current)" : "",
+          value: true,
+        },
+        {
+          label: "No",
+          description: current === false ? "(current)" : "",
+          value: false,
+        },
+      ];
+
+    const selected = await vscode.window.showQuickPick(values, {
+      placeHolder: option.label.replace(/^\$\([^)]*\)\s*/, ""),
+      ignoreFocusOut: true,
+    });
+
+    if (selected && selected.value !== current) {
+      await this.patternManager.updatePattern(patternId, {
+        [option.key]: selected.value,
+      });
+    }
+  }
+
+  /**
+   * Show the decoration style options for a pattern
+   */
+  public async showStyleSelection(patternId: string): Promise<void> {
+    const pattern = this.patternManager
+      .getPatterns()
+      .find((p) => p.id === patternId);
+    if (!pattern) {
+      return;
+    }
+
+    const current = pattern.style || "background";
+    const styleOptions: Array<
+      vscode.QuickPickItem & { style: PatternStyle }
+    > = PATTERN_STYLES.map((style) => ({
+      label: `$(${style.icon}) ${style.name}`,
+      description: style.id === current ? "(current)" : "",
+      style: style.id,
+    }));
+
+    const selected = await vscode.window.showQuickPick(styleOptions, {
+      placeHolder: `Select a highlight style for pattern "${PatternMatcher.formatPattern(
+        pattern
+      )}"`,
+      ignoreFocusOut: true,
+    });
+
+    if (selected && selected.style !== current) {
+      await this.patternManager.updatePattern(patternId, {
+        style: selected.style === "background" ? undefined : selected.style,
+      });
+    }
+  }
+
+  /**
+   * Show the gutter icon and overview ruler lane options for a pattern
+   */
+  public async showMarkerOptions(patternId: string): Promise<void> {
+    const pattern = this.patternManager
+      .getPatterns()
+      .find((p) => p.id === patternId);
+    if (!pattern) {
+      return;
+    }
+
+    const currentLane = pattern.rulerLane || "right";
+    const options: Array<
+      vscode.QuickPickItem & { key: "gutterIcon" | "rulerLane" }
+    > = [
+      {
+        label: "$(debug-breakpoint) Gutter Icon",
+        description: pattern.gutterIcon ? "Shown" : "Hidden",
+        key: "gutterIcon",
+      },
+      {
+        label: "$(layout-sidebar-right) Overview Ruler Lane",
+        description: RULER_LANES.find((lane) => lane.id === currentLane)!.name,
+        key: "rulerLane",
+      },
+    ];
+
+    const option = await vscode.window.showQuickPick(options, {
+      placeHolder: `Gutter and overview ruler for "${PatternMatcher.formatPattern(
+        pattern
+      )}"`,
+      ignoreFocusOut: true,
+    });
+    if (!option) {
+      return;
+    }
+
+    if (option.key === "gutterIcon") {
+      await this.patternManager.updatePattern(patternId, {
+        gutterIcon: pattern.gutterIcon ? undefined : true,
+      });
+      return;
+    }
+
+    const lanes: Array<vscode.QuickPickItem & { lane: RulerLane }> =
+      RULER_LANES.map((lane) => ({
+        label: lane.name,
+        description: lane.id === currentLane ? "(current)" : "",
+        lane: lane.id,
+      }));
+
+    const selected = await vscode.window.showQuickPick(lanes, {
+      placeHolder: "Overview ruler lane",
+      ignoreFocusOut: true,
+    });
+
+    if (selected && selected.lane !== currentLane) {
+      await this.patternManager.updatePattern(patternId, {
+        rulerLane: selected.lane === "right" ? undefined : selected.lane,
+      });
+    }
+  }
+
   // Inline modes removed - no longer needed
 
   /**
    * Dispose of resources
    */
   public dispose(): void {
+    if (this.matchesUpdateTimeout) {
+      clearTimeout(this.matchesUpdateTimeout);
+    }
+    this.disposables.forEach((disposable) => disposable.dispose());
     this._onDidChangeTreeData.dispose();
+    this._onDidChangeFilter.dispose();
   }
 
   /**